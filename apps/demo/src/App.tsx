@@ -5,6 +5,7 @@ import {
   win31Theme, 
   CardBackSelector,
   type SolitaireTheme, 
+  type SolitaireOptions,
   CARD_BACKS
 } from '@react-solitaire/react';
 
@@ -161,6 +162,49 @@ const CloseButton = styled.button`
 `;
 
 type DrawModeOption = 'draw-one' | 'draw-three';
+type GameOption =
+  | 'klondike'
+  | 'klondike-double'
+  | 'klondike-easy'
+  | 'klondike-vegas'
+  | 'spider-1'
+  | 'spider-2'
+  | 'spider-4'
+  | 'freecell'
+  | 'pyramid'
+  | 'tripeaks'
+  | 'golf'
+  | 'yukon'
+  | 'russian';
+
+// Menu label, window title and Solitaire options for each game
+const GAMES: Record<GameOption, { label: string; title: string; options: SolitaireOptions }> = {
+  klondike: { label: 'Klondike', title: 'Klondike Solitaire', options: { variant: 'klondike' } },
+  'klondike-double': {
+    label: 'Double Klondike',
+    title: 'Double Klondike',
+    options: { variant: 'klondike', decks: 2, tableauColumns: 9 },
+  },
+  'klondike-easy': {
+    label: 'Easy Klondike (6 columns)',
+    title: 'Klondike Solitaire',
+    options: { variant: 'klondike', tableauColumns: 6 },
+  },
+  'klondike-vegas': {
+    label: 'Vegas (keep score)',
+    title: 'Klondike Solitaire',
+    options: { variant: 'klondike', scoringMode: 'vegas', cumulativeVegas: true, bankrollKey: 'solitaire-vegas' },
+  },
+  'spider-1': { label: 'Spider (1 suit)', title: 'Spider Solitaire', options: { variant: 'spider', spiderSuits: 1 } },
+  'spider-2': { label: 'Spider (2 suits)', title: 'Spider Solitaire', options: { variant: 'spider', spiderSuits: 2 } },
+  'spider-4': { label: 'Spider (4 suits)', title: 'Spider Solitaire', options: { variant: 'spider', spiderSuits: 4 } },
+  freecell: { label: 'FreeCell', title: 'FreeCell', options: { variant: 'freecell' } },
+  pyramid: { label: 'Pyramid', title: 'Pyramid', options: { variant: 'pyramid' } },
+  tripeaks: { label: 'TriPeaks', title: 'TriPeaks', options: { variant: 'tripeaks' } },
+  golf: { label: 'Golf', title: 'Golf', options: { variant: 'golf' } },
+  yukon: { label: 'Yukon', title: 'Yukon', options: { variant: 'yukon' } },
+  russian: { label: 'Russian', title: 'Russian Solitaire', options: { variant: 'russian' } },
+};
 
 // Check for debug mode via querystring
 const isDebugMode = () => {
@@ -171,6 +215,7 @@ const isDebugMode = () => {
 
 function App() {
   const [drawMode, setDrawMode] = useState<DrawModeOption>('draw-one');
+  const [game, setGame] = useState<GameOption>('klondike');
   const [newGameTrigger, setNewGameTrigger] = useState(0);
   const [winStats, setWinStats] = useState<{ time: number; moves: number; score: number } | null>(null);
   const [cardBack, setCardBack] = useState(
@@ -226,6 +271,13 @@ function App() {
     }
   };
 
+  const handleGameChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    if (confirmNewGame()) {
+      setGame(e.target.value as GameOption);
+      handleNewGame(true);
+    }
+  };
+
     const handleWin = useCallback((stats: { time: number; moves: number; score: number }) => {
     setWinStats(stats);
   }, []);
@@ -247,7 +299,7 @@ function App() {
       <AppContainer>
         <Header>
           <Title>
-            Klondike Solitaire
+            {GAMES[game].title}
           </Title>
           
           <Controls>
@@ -265,12 +317,23 @@ function App() {
             </Button>
 
             <label style={{ color: 'white', fontSize: 12 }}>
-              Draw:
-              <Select value={drawMode} onChange={handleDrawModeChange} style={{ marginLeft: 4 }}>
-                <option value="draw-one">Draw 1</option>
-                <option value="draw-three">Draw 3</option>
+              Game:
+              <Select value={game} onChange={handleGameChange} style={{ marginLeft: 4 }}>
+                {(Object.keys(GAMES) as GameOption[]).map(option => (
+                  <option key={option} value={option}>{GAMES[option].label}</option>
+                ))}
               </Select>
             </label>
+
+            {GAMES[game].options.variant === 'klondike' && (
+              <label style={{ color: 'white', fontSize: 12 }}>
+                Draw:
+                <Select value={drawMode} onChange={handleDrawModeChange} style={{ marginLeft: 4 }}>
+                  <option value="draw-one">Draw 1</option>
+                  <option value="draw-three">Draw 3</option>
+                </Select>
+              </label>
+            )}
                         
             <Button onClick={() => handleNewGame(false)}>
               New Game
@@ -282,8 +345,9 @@ function App() {
           <Solitaire
             theme={theme}
             options={{
-              drawMode,
               scoringMode: 'standard',
+              ...GAMES[game].options,
+              drawMode,
               doubleClickEnabled: true,
               sound: {
                 enabled: soundEnabled,
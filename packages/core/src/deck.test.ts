@@ -3,6 +3,8 @@ import {
   createDeck,
   createCard,
   createShuffledDeck,
+  createRandom,
+  randomInt,
   shuffle,
   shuffleWithSeed,
   flipCard,
@@ -39,6 +41,13 @@ describe('deck', () => {
       const ids = new Set(deck.map(c => c.id));
       expect(ids.size).toBe(52);
     });
+
+    it('builds multi-deck shoes with a unique ID per copy', () => {
+      const deck = createDeck(2);
+      expect(deck).toHaveLength(104);
+      expect(new Set(deck.map(c => c.id)).size).toBe(104);
+      expect(deck.filter(c => c.suit === 'hearts' && c.rank === 1).map(c => c.id)).toEqual(['hearts-1', 'hearts-1-1']);
+    });
   });
 
   describe('createCard', () => {
@@ -103,6 +112,28 @@ describe('deck', () => {
       const sameOrder = shuffled1.every((c, i) => c.id === shuffled2[i].id);
       expect(sameOrder).toBe(false);
     });
+
+    it('keeps the original shuffle as deal algorithm 1', () => {
+      const shuffled = shuffleWithSeed(createDeck(), 12345, 1);
+      expect(shuffled.slice(0, 5).map(c => c.id)).toEqual([
+        'diamonds-7', 'hearts-2', 'diamonds-5', 'spades-2', 'hearts-1',
+      ]);
+    });
+  });
+
+  describe('createRandom', () => {
+    it('produces the same 32-bit sequence for a seed', () => {
+      const random = createRandom(1);
+      expect([random(), random(), random()]).toEqual([2693262067, 11749833, 2265367787]);
+    });
+
+    it('picks integers within range', () => {
+      const random = createRandom(7);
+      for (let i = 0; i < 100; i++) {
+        const n = randomInt(random, 6);
+        expect(Number.isInteger(n) && n >= 0 && n < 6).toBe(true);
+      }
+    });
   });
 
   describe('createShuffledDeck', () => {
@@ -116,6 +147,12 @@ describe('deck', () => {
       const deck2 = createShuffledDeck(42);
       expect(deck1.map(c => c.id)).toEqual(deck2.map(c => c.id));
     });
+
+    it('shuffles several decks together', () => {
+      const deck = createShuffledDeck(42, 3);
+      expect(deck).toHaveLength(156);
+      expect(new Set(deck.map(c => c.id)).size).toBe(156);
+    });
   });
 
   describe('flipCard', () => {
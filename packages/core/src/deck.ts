@@ -1,4 +1,11 @@
-import type { Card, Suit, Rank } from './types';
+import type { Card, Suit, Rank, DealAlgorithm, RandomGenerator } from './types';
+
+/**
+ * Deal algorithm used for new games (see DealAlgorithm)
+ * Bump this and keep the old branch in shuffleWithSeed whenever seeded deals
+ * change, so saved seeds still deal the same cards.
+ */
+export const DEAL_ALGORITHM: DealAlgorithm = 2;
 
 /**
  * All suits in order
@@ -12,17 +19,19 @@ export const RANKS: Rank[] = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13];
 
 /**
  * Create a unique card ID from suit and rank
+ * Copies after the first (multi-deck games) get the copy number appended,
+ * e.g. "hearts-1-1" for the Ace of hearts from the second deck.
  */
-export function createCardId(suit: Suit, rank: Rank): string {
-  return `${suit}-${rank}`;
+export function createCardId(suit: Suit, rank: Rank, copy = 0): string {
+  return copy > 0 ? `${suit}-${rank}-${copy}` : `${suit}-${rank}`;
 }
 
 /**
  * Create a single card
  */
-export function createCard(suit: Suit, rank: Rank, faceUp = false): Card {
+export function createCard(suit: Suit, rank: Rank, faceUp = false, copy = 0): Card {
   return {
-    id: createCardId(suit, rank),
+    id: createCardId(suit, rank, copy),
     suit,
     rank,
     faceUp,
@@ -30,14 +39,16 @@ export function createCard(suit: Suit, rank: Rank, faceUp = false): Card {
 }
 
 /**
- * Create a standard 52-card deck (all face down)
+ * Create a shoe of standard 52-card decks (all face down)
  */
-export function createDeck(): Card[] {
+export function createDeck(decks = 1): Card[] {
   const cards: Card[] = [];
 
-  for (const suit of SUITS) {
-    for (const rank of RANKS) {
-      cards.push(createCard(suit, rank, false));
+  for (let copy = 0; copy < decks; copy++) {
+    for (const suit of SUITS) {
+      for (const rank of RANKS) {
+        cards.push(createCard(suit, rank, false, copy));
+      }
     }
   }
 
@@ -60,10 +71,34 @@ export function shuffle<T>(array: T[]): T[] {
 }
 
 /**
- * Shuffle with a seeded random number generator for reproducible games
- * Uses a simple LCG (Linear Congruential Generator)
+ * Create a Mulberry32 random number generator
+ * Only 32-bit integer arithmetic is used, so a seed gives the same sequence
+ * on every JavaScript engine.
+ */
+export function createRandom(seed: number): RandomGenerator {
+  let current = seed >>> 0;
+
+  return () => {
+    current = (current + 0x6d2b79f5) >>> 0;
+    let t = current;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return (t ^ (t >>> 14)) >>> 0;
+  };
+}
+
+/**
+ * Pick a random integer from 0 to max - 1
+ */
+export function randomInt(random: RandomGenerator, max: number): number {
+  return Math.floor((random() / 2 ** 32) * max);
+}
+
+/**
+ * Original seeded shuffle (deal algorithm 1), kept so old seeds deal the same
+ * cards; its LCG loses precision above 2^53 and repeats poorly
  */
-export function shuffleWithSeed<T>(array: T[], seed: number): T[] {
+function shuffleWithLegacySeed<T>(array: T[], seed: number): T[] {
   const result = [...array];
   
   // LCG parameters (same as glibc)
@@ -87,10 +122,31 @@ export function shuffleWithSeed<T>(array: T[], seed: number): T[] {
 }
 
 /**
- * Create a shuffled deck
+ * Shuffle with a seeded random number generator for reproducible games
+ * Uses a Fisher-Yates shuffle driven by createRandom; pass an older deal
+ * algorithm to reproduce games dealt before it changed
+ */
+export function shuffleWithSeed<T>(array: T[], seed: number, algorithm: DealAlgorithm = DEAL_ALGORITHM): T[] {
+  if (algorithm === 1) {
+    return shuffleWithLegacySeed(array, seed);
+  }
+
+  const result = [...array];
+  const random = createRandom(seed);
+
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = randomInt(random, i + 1);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+
+  return result;
+}
+
+/**
+ * Create a shuffled shoe of one or more decks
  */
-export function createShuffledDeck(seed?: number): Card[] {
-  const deck = createDeck();
+export function createShuffledDeck(seed?: number, decks = 1): Card[] {
+  const deck = createDeck(decks);
   return seed !== undefined ? shuffleWithSeed(deck, seed) : shuffle(deck);
 }
 
@@ -0,0 +1,143 @@
+import type {
+  Card,
+  Pile,
+  PileType,
+  GameState,
+  GameCounters,
+  PileChange,
+  StateDelta,
+} from './types';
+
+/**
+ * Every pile of a state with its address
+ */
+function listPiles(state: GameState): Array<{ pileType: PileType; pileIndex: number; pile: Pile }> {
+  return [
+    { pileType: 'stock', pileIndex: 0, pile: state.stock },
+    { pileType: 'waste', pileIndex: 0, pile: state.waste },
+    ...state.foundations.map((pile, pileIndex) => ({ pileType: 'foundation' as const, pileIndex, pile })),
+    ...state.tableau.map((pile, pileIndex) => ({ pileType: 'tableau' as const, pileIndex, pile })),
+    ...state.cells.map((pile, pileIndex) => ({ pileType: 'cell' as const, pileIndex, pile })),
+  ];
+}
+
+/**
+ * Read the counters and clock of a state
+ */
+function getCounters(state: GameState): GameCounters {
+  return {
+    score: state.score,
+    moves: state.moves,
+    startTime: state.startTime,
+    endTime: state.endTime,
+    isWon: state.isWon,
+    stockPasses: state.stockPasses,
+    timeCharged: state.timeCharged,
+  };
+}
+
+/**
+ * Whether two cards are the same card showing the same face
+ */
+function isSameFace(a: Card, b: Card): boolean {
+  return a.suit === b.suit && a.rank === b.rank && a.faceUp === b.faceUp;
+}
+
+/**
+ * Record what changed between two positions of the same game
+ * Only the tops of piles that changed are kept.
+ */
+export function diffStates(before: GameState, after: GameState): StateDelta {
+  const afterPiles = listPiles(after);
+  const piles: PileChange[] = [];
+
+  listPiles(before).forEach(({ pileType, pileIndex, pile }, i) => {
+    const from = pile.cards;
+    const to = afterPiles[i].pile.cards;
+    if (from === to) {
+      return;
+    }
+
+    let keep = 0;
+    while (keep < from.length && keep < to.length && from[keep].id === to[keep].id && isSameFace(from[keep], to[keep])) {
+      keep++;
+    }
+    if (keep < from.length || keep < to.length) {
+      piles.push({ pileType, pileIndex, keep, removed: from.slice(keep), added: to.slice(keep) });
+    }
+  });
+
+  return { piles, before: getCounters(before), after: getCounters(after) };
+}
+
+/**
+ * Apply a delta in either direction
+ * Cards are matched by suit and rank (then by ID) against the cards the delta
+ * lifts off, so copies in multi-deck games keep their IDs after a load.
+ * Throws if the position doesn't match the delta.
+ */
+function patchState(state: GameState, delta: StateDelta, forward: boolean): GameState {
+  const piles = listPiles(state);
+  const find = (change: PileChange) => {
+    const found = piles.find(p => p.pileType === change.pileType && p.pileIndex === change.pileIndex);
+    if (!found) {
+      throw new Error(`History refers to a missing pile: ${change.pileType} ${change.pileIndex}`);
+    }
+    return found.pile;
+  };
+
+  // Lift the cards the delta takes off every pile first
+  const lifted: Card[] = [];
+  for (const change of delta.piles) {
+    const expected = forward ? change.removed : change.added;
+    const cards = find(change).cards;
+    const top = cards.slice(change.keep);
+    if (top.length !== expected.length || !top.every((card, i) => isSameFace(card, expected[i]))) {
+      throw new Error('History does not match the position');
+    }
+    lifted.push(...top);
+  }
+
+  // Then lay the other side down, reusing the lifted card objects
+  const take = (wanted: Card): Card => {
+    const index = lifted.findIndex(card => card.id === wanted.id);
+    const match = index >= 0 ? index : lifted.findIndex(card => card.suit === wanted.suit && card.rank === wanted.rank);
+    if (match < 0) {
+      throw new Error('History does not match the position');
+    }
+    const [card] = lifted.splice(match, 1);
+    return card.faceUp === wanted.faceUp ? card : { ...card, faceUp: wanted.faceUp };
+  };
+
+  const replaced = new Map<Pile, Pile>();
+  for (const change of delta.piles) {
+    const pile = find(change);
+    const placed = (forward ? change.added : change.removed).map(take);
+    replaced.set(pile, { ...pile, cards: [...pile.cards.slice(0, change.keep), ...placed] });
+  }
+
+  const update = (pile: Pile) => replaced.get(pile) ?? pile;
+  return {
+    ...state,
+    ...(forward ? delta.after : delta.before),
+    stock: update(state.stock),
+    waste: update(state.waste),
+    foundations: state.foundations.map(update),
+    tableau: state.tableau.map(update),
+    cells: state.cells.map(update),
+  };
+}
+
+/**
+ * Take a recorded action back
+ */
+export function undoDelta(state: GameState, delta: StateDelta): GameState {
+  return patchState(state, delta, false);
+}
+
+/**
+ * Play a recorded action again
+ */
+export function redoDelta(state: GameState, delta: StateDelta): GameState {
+  return patchState(state, delta, true);
+}
@@ -8,9 +8,26 @@ import {
   flipTableauCard,
   validateState,
   getAllCards,
+  stepGame,
+  redoGame,
+  goToHistoryNode,
+  tickGameClock,
   GameHistory,
 } from './game';
-import type { CardLocation } from './types';
+import { diffStates, undoDelta, redoDelta } from './delta';
+import { createCard } from './deck';
+import { canResetStock, getPassLimit, getUndosLeft } from './rules';
+import {
+  STANDARD_PROFILE,
+  VEGAS_PROFILE,
+  STANDARD_SCORES,
+  VEGAS_SCORES,
+  getInitialScore,
+  calculateStandardScore,
+  calculateVegasScore,
+  calculateSpiderScore,
+} from './scoring';
+import type { CardLocation, GameState, UndoMode } from './types';
 
 describe('game', () => {
   describe('createInitialState', () => {
@@ -75,6 +92,45 @@ describe('game', () => {
       expect(cards1).toEqual(cards2);
     });
 
+    it('records the seed', () => {
+      expect(createInitialState({}, 42).seed).toBe(42);
+      expect(createInitialState().seed).toBeNull();
+    });
+
+    it('starts on the scoring profile initial score', () => {
+      expect(createInitialState({ scoringMode: 'vegas' }).score).toBe(-52);
+      expect(createInitialState({ scoringMode: 'none', variant: 'spider' }).score).toBe(0);
+      expect(createInitialState({ scoringProfile: { ...VEGAS_PROFILE, initialScore: -100 } }).score).toBe(-100);
+    });
+
+    it('keeps the deprecated scoring helpers working', () => {
+      const move = {
+        from: { pileType: 'waste' as const, pileIndex: 0, cardIndex: 0 },
+        to: { pileType: 'foundation' as const, pileIndex: 0, cardIndex: 0 },
+        cardCount: 1,
+        flippedCard: false,
+        scoreChange: 0,
+      };
+
+      expect(getInitialScore('vegas')).toBe(-52);
+      expect(getInitialScore('standard', 'spider')).toBe(500);
+      expect(calculateStandardScore(move)).toBe(10);
+      expect(calculateVegasScore(move)).toBe(5);
+      expect(calculateSpiderScore({ ...move, completedRuns: 1 })).toBe(99);
+    });
+
+    it('keeps the deprecated scoring constants in their original shape', () => {
+      expect(STANDARD_SCORES).toEqual({
+        wasteToTableau: 5,
+        wasteToFoundation: 10,
+        tableauToFoundation: 10,
+        turnOverTableauCard: 5,
+        foundationToTableau: -15,
+        recycleWaste: -20,
+      });
+      expect(VEGAS_SCORES).toEqual({ initialCost: -52, cardToFoundation: 5, foundationToTableau: -5 });
+    });
+
     it('respects configuration', () => {
       const state = createInitialState({ drawMode: 'draw-three', scoringMode: 'vegas' });
       expect(state.config.drawMode).toBe('draw-three');
@@ -109,6 +165,17 @@ describe('game', () => {
       expect(newState.waste.cards[0].faceUp).toBe(true);
     });
 
+    it('shares every pile it leaves alone', () => {
+      const state = createInitialState({}, 42);
+      const newState = drawFromStock(state);
+
+      expect(newState.stock).not.toBe(state.stock);
+      expect(newState.waste).not.toBe(state.waste);
+      newState.tableau.forEach((t, i) => expect(t).toBe(state.tableau[i]));
+      newState.foundations.forEach((f, i) => expect(f).toBe(state.foundations[i]));
+      expect(state.stock.cards).toHaveLength(24);
+    });
+
     it('moves three cards in draw-three mode', () => {
       const state = createInitialState({ drawMode: 'draw-three' });
       const newState = drawFromStock(state);
@@ -148,6 +215,12 @@ describe('game', () => {
       expect(newState.startTime).not.toBeNull();
     });
 
+    it('draws any configured number of cards', () => {
+      const state = drawFromStock(createInitialState({ drawMode: 'draw-three', drawCount: 5 }));
+      expect(state.waste.cards).toHaveLength(5);
+      expect(state.stock.cards).toHaveLength(19);
+    });
+
     it('increments move counter', () => {
       const state = createInitialState();
       expect(state.moves).toBe(0);
@@ -199,6 +272,48 @@ describe('game', () => {
       const newState = resetStock(state);
       expect(newState).toBe(state);
     });
+
+    it('stops at the pass limit in any scoring mode', () => {
+      let state = createInitialState({ scoringMode: 'standard', passLimit: 1 });
+      const drawAll = (s: GameState) => {
+        for (let i = 0; i < 24; i++) {
+          s = drawFromStock(s);
+        }
+        return s;
+      };
+
+      state = resetStock(drawAll(state));
+      expect(state.stockPasses).toBe(1);
+
+      state = drawAll(state);
+      expect(resetStock(state)).toBe(state);
+      expect(canResetStock(state)).toBe(false);
+    });
+
+    it('limits passes to three without unlimitedPasses', () => {
+      const state = createInitialState({ scoringMode: 'none', unlimitedPasses: false });
+      expect(getPassLimit(state.config)).toBe(3);
+      expect(getPassLimit({ ...state.config, passLimit: 0 })).toBe(0);
+      expect(getPassLimit({ ...state.config, unlimitedPasses: true })).toBeNull();
+    });
+
+    it('stops a recycle penalty at zero', () => {
+      let state = createInitialState({
+        scoringProfile: { ...STANDARD_PROFILE, recycleWaste: { 'draw-one': -100, 'draw-three': -20 } },
+      });
+      state.score = 40;
+      state = resetStock(drawFromStock(state));
+      expect(state.score).toBe(0);
+    });
+
+    it('keeps a negative Vegas score', () => {
+      let state = createInitialState({ scoringMode: 'vegas', unlimitedPasses: true });
+      for (let i = 0; i < 24; i++) {
+        state = drawFromStock(state);
+      }
+      state = resetStock(state);
+      expect(state.score).toBe(-52);
+    });
   });
 
   describe('executeMove', () => {
@@ -227,6 +342,27 @@ describe('game', () => {
       }
     });
 
+    it('only replaces the source and destination piles', () => {
+      const state = createInitialState({}, 1);
+      state.tableau[0].cards = [createCard('spades', 9, false), createCard('hearts', 8, true)];
+      state.tableau[1].cards = [createCard('clubs', 9, true)];
+
+      const result = executeMove(
+        state,
+        { pileType: 'tableau', pileIndex: 0, cardIndex: 1 },
+        { pileType: 'tableau', pileIndex: 1, cardIndex: 1 },
+        1
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.state!.tableau[0]).not.toBe(state.tableau[0]);
+      expect(result.state!.tableau[1]).not.toBe(state.tableau[1]);
+      result.state!.tableau.slice(2).forEach((t, i) => expect(t).toBe(state.tableau[i + 2]));
+      expect(result.state!.stock).toBe(state.stock);
+      expect(state.tableau[0].cards).toHaveLength(2);
+      expect(result.state!.tableau[1].cards[1]).toBe(state.tableau[0].cards[1]);
+    });
+
     it('flips exposed tableau card after move when autoFlipTableau is enabled', () => {
       // Create a scenario where a card should flip
       const state = createInitialState({ autoFlipTableau: true }, 12345);
@@ -351,48 +487,292 @@ describe('game', () => {
       expect(valid).toBe(false);
       expect(errors.some(e => e.includes('Duplicate'))).toBe(true);
     });
+
+    it('checks counts against the variant deck size', () => {
+      const state = createInitialState({ variant: 'spider', spiderSuits: 2 });
+      expect(validateState(state).valid).toBe(true);
+
+      state.stock.cards.pop();
+      expect(validateState(state).errors).toContain('Expected 104 cards, found 103');
+    });
+
+    it('detects cards from outside the deck', () => {
+      const state = createInitialState({ variant: 'spider', spiderSuits: 1 });
+      state.stock.cards[0] = { ...state.stock.cards[0], suit: 'hearts', id: 'hearts-1' };
+      const { errors } = validateState(state);
+      expect(errors).toContain('Unexpected card: hearts-1');
+    });
+  });
+
+  describe('tickGameClock', () => {
+    it('charges timed games 2 points every 10 seconds', () => {
+      const state = createInitialState({ timedGame: true }, 42);
+      state.score = 20;
+      const started = stepGame(state, new GameHistory(), { type: 'DRAW' }, 5000)!.state!;
+      expect(started.startTime).toBe(5000);
+
+      const ticked = tickGameClock(started, 5000 + 25000);
+      expect(ticked.score).toBe(16);
+      expect(tickGameClock(ticked, 5000 + 29000)).toBe(ticked);
+
+      const drawn = stepGame(ticked, new GameHistory(), { type: 'DRAW' }, 5000 + 31000)!.state!;
+      expect(drawn.score).toBe(14);
+    });
+
+    it('leaves untimed games alone', () => {
+      const state = stepGame(createInitialState({}, 42), new GameHistory(), { type: 'DRAW' }, 0)!.state!;
+      expect(tickGameClock(state, 60000)).toBe(state);
+    });
   });
 
   describe('GameHistory', () => {
+    const drawEntry = (state: GameState, drawn = drawFromStock(state)) => ({
+      action: { type: 'DRAW' as const },
+      delta: diffStates(state, drawn),
+      scoreChange: 0,
+      time: 0,
+    });
+
     it('tracks undo/redo', () => {
       const history = new GameHistory();
       const state1 = createInitialState();
       const state2 = drawFromStock(state1);
-      
-      history.push({
-        move: { from: { pileType: 'stock', pileIndex: 0, cardIndex: 0 }, 
-                to: { pileType: 'waste', pileIndex: 0, cardIndex: 0 },
-                cardCount: 1, flippedCard: false, scoreChange: 0 },
-        previousState: state1,
-      });
-      
+
+      history.push(drawEntry(state1, state2));
+
       expect(history.canUndo()).toBe(true);
       expect(history.canRedo()).toBe(false);
-      
-      const undoneState = history.undo();
-      expect(undoneState).toEqual(state1);
+
+      const entry = history.undo()!;
+      expect(undoDelta(state2, entry.delta)).toEqual(state1);
       expect(history.canUndo()).toBe(false);
       expect(history.canRedo()).toBe(true);
+      expect(redoDelta(state1, history.redo()!.delta)).toEqual(state2);
+    });
+
+    it('clones a history that changes independently', () => {
+      const history = new GameHistory();
+      const state = createInitialState({}, 42);
+      state.tableau[0].cards[0].faceUp = false;
+      const drawn = stepGame(state, history, { type: 'DRAW' }, 1000)!.state!;
+
+      const nodes = history.getNodes();
+      const copy = history.clone();
+      stepGame(drawn, copy, { type: 'UNDO' }, 2000);
+      stepGame(state, copy, { type: 'FLIP_CARD', tableauIndex: 0 }, 3000);
+
+      expect(copy.size()).toBe(2);
+      expect(history.size()).toBe(1);
+      expect(history.getCurrentNodeId()).toBe(1);
+      expect(history.getNodes()[0].children).toEqual([1]);
+      expect(history.canRedo()).toBe(false);
+      // Nothing was copied or changed for the original
+      expect(history.getNodes()).toBe(nodes);
+    });
+
+    it('records only the piles an action changed', () => {
+      const state = createInitialState({}, 42);
+      const delta = diffStates(state, drawFromStock(state));
+
+      expect(delta.piles.map(p => [p.pileType, p.keep, p.removed.length, p.added.length])).toEqual([
+        ['stock', 23, 1, 0],
+        ['waste', 0, 0, 1],
+      ]);
     });
 
     it('clears future history on new move after undo', () => {
       const history = new GameHistory();
       const state1 = createInitialState();
-      
+
       // Add two moves
-      history.push({ move: {} as any, previousState: state1 });
-      history.push({ move: {} as any, previousState: cloneState(state1) });
-      
+      history.push(drawEntry(state1));
+      history.push(drawEntry(drawFromStock(state1)));
+
       expect(history.size()).toBe(2);
-      
+
       // Undo one
       history.undo();
       expect(history.canRedo()).toBe(true);
-      
+
       // Add a new move (should clear the redo)
-      history.push({ move: {} as any, previousState: cloneState(state1) });
+      history.push({ ...drawEntry(state1), action: { type: 'FLIP_CARD', tableauIndex: 0 } });
       expect(history.canRedo()).toBe(false);
-      expect(history.size()).toBe(2);
+      expect(history.getEntries()).toHaveLength(2);
+    });
+
+    it('follows the undone line when the same action is played again', () => {
+      const history = new GameHistory();
+      const state1 = createInitialState();
+      const state2 = drawFromStock(state1);
+
+      history.push(drawEntry(state1, state2));
+      history.push(drawEntry(state2));
+      history.push(drawEntry(drawFromStock(state2)));
+      history.undo();
+      history.undo();
+
+      // Drawing again replays the first undone draw and keeps the one after it
+      history.push(drawEntry(state2));
+      expect(history.getCurrentNodeId()).toBe(2);
+      expect(history.canRedo()).toBe(true);
+      expect(history.getRedoActions()).toEqual([{ type: 'DRAW' }]);
+      expect(history.size()).toBe(3);
+    });
+
+    it('undoes every action back to the deal', () => {
+      const history = new GameHistory();
+      const deal = createInitialState({}, 42);
+      let state = deal;
+
+      // Draw through the stock and recycle it, well past 100 actions
+      for (let i = 0; i < 150; i++) {
+        const action = state.stock.cards.length > 0 ? { type: 'DRAW' as const } : { type: 'RESET_STOCK' as const };
+        state = stepGame(state, history, action, i * 1000)!.state!;
+      }
+      expect(history.size()).toBe(150);
+
+      while (history.canUndo()) {
+        state = stepGame(state, history, { type: 'UNDO' }, 200000)!.state!;
+      }
+      expect(state.tableau).toEqual(deal.tableau);
+      expect(state.stock).toEqual(deal.stock);
+      expect(state.waste.cards).toHaveLength(0);
+      expect(state.moves).toBe(0);
+    });
+
+    it('redoes undone actions by playing them again', () => {
+      const history = new GameHistory();
+      const deal = createInitialState({}, 42);
+      const drawn = stepGame(deal, history, { type: 'DRAW' }, 1000)!.state!;
+      const drawnTwice = stepGame(drawn, history, { type: 'DRAW' }, 2000)!.state!;
+
+      let state = stepGame(drawnTwice, history, { type: 'UNDO' }, 3000)!.state!;
+      state = stepGame(state, history, { type: 'UNDO' }, 4000)!.state!;
+      expect(history.getRedoActions()).toEqual([{ type: 'DRAW' }]);
+
+      const redone = redoGame(state, history, 5000)!;
+      expect(redone.actions).toEqual([{ type: 'DRAW' }]);
+      expect(redone.state.waste).toEqual(drawn.waste);
+      expect(history.canRedo()).toBe(true);
+
+      const again = redoGame(redone.state, history, 6000)!;
+      expect(again.state.waste).toEqual(drawnTwice.waste);
+      expect(again.state.moves).toBe(2);
+      expect(history.canRedo()).toBe(false);
+      expect(redoGame(again.state, history)).toBeNull();
+    });
+
+    it('branches when a different action is played after an undo', () => {
+      const history = new GameHistory();
+      const state = createInitialState({}, 42);
+      state.tableau[0].cards[0].faceUp = false;
+      const drawn = stepGame(state, history, { type: 'DRAW' }, 1000)!.state!;
+      const drawnTwice = stepGame(drawn, history, { type: 'DRAW' }, 1500)!.state!;
+      const undone = stepGame(drawnTwice, history, { type: 'UNDO' }, 2000)!.state!;
+      const first = stepGame(undone, history, { type: 'UNDO' }, 2500)!.state!;
+
+      const flipped = stepGame(first, history, { type: 'FLIP_CARD', tableauIndex: 0 }, 3000)!.state!;
+      expect(history.canRedo()).toBe(false);
+      expect(history.size()).toBe(3);
+      expect(history.getNodes()[0].children).toHaveLength(2);
+      expect(history.getEntries().map(e => e.action.type)).toEqual(['FLIP_CARD']);
+
+      // Jump back to the end of the first line
+      const drawNode = history.getNodes().find(n => n.depth === 2)!;
+      const restored = goToHistoryNode(flipped, history, drawNode.id, 4000)!;
+      expect(restored.waste).toEqual(drawnTwice.waste);
+      expect(restored.tableau[0].cards[0].faceUp).toBe(false);
+      expect(restored.moves).toBe(2);
+      expect(history.getCurrentNodeId()).toBe(drawNode.id);
+      expect(history.getEntries().map(e => e.action.type)).toEqual(['DRAW', 'DRAW']);
+
+      // And back to the branch
+      const branch = goToHistoryNode(restored, history, 3, 5000)!;
+      expect(branch.tableau[0].cards[0].faceUp).toBe(true);
+      expect(branch.waste.cards).toHaveLength(0);
+      expect(goToHistoryNode(branch, history, 99)).toBeNull();
+    });
+
+    it('limits undos per game in the limited undo mode', () => {
+      const history = new GameHistory();
+      const state = createInitialState({ undoMode: 'limited', undoLimit: 1 }, 42);
+      const drawn = stepGame(state, history, { type: 'DRAW' }, 1000)!.state!;
+      const drawnTwice = stepGame(drawn, history, { type: 'DRAW' }, 1500)!.state!;
+      expect(getUndosLeft(drawnTwice)).toBe(1);
+
+      const undone = stepGame(drawnTwice, history, { type: 'UNDO' }, 2000)!.state!;
+      expect(undone.undoCount).toBe(1);
+      expect(getUndosLeft(undone)).toBe(0);
+
+      // Redoing doesn't give the undo back
+      const redone = redoGame(undone, history, 2500)!.state;
+      expect(redone.undoCount).toBe(1);
+      const refused = stepGame(redone, history, { type: 'UNDO' }, 3000)!;
+      expect(refused.success).toBe(false);
+      expect(refused.error).toBe('No undos left');
+      expect(history.canUndo()).toBe(true);
+    });
+
+    it('refuses every undo in the disabled undo mode', () => {
+      const history = new GameHistory();
+      const state = createInitialState({ undoMode: 'disabled' }, 42);
+      const drawn = stepGame(state, history, { type: 'DRAW' }, 1000)!.state!;
+
+      expect(getUndosLeft(drawn)).toBe(0);
+      expect(stepGame(drawn, history, { type: 'UNDO' }, 2000)!.success).toBe(false);
+      expect(stepGame(state, new GameHistory(), { type: 'UNDO' }, 2000)).toBeNull();
+    });
+
+    it('only charges the undo penalty in the penalty undo mode', () => {
+      const scoringProfile = { ...STANDARD_PROFILE, initialScore: 100, undo: -5 };
+      const play = (undoMode: UndoMode) => {
+        const history = new GameHistory();
+        const state = createInitialState({ scoringProfile, undoMode }, 42);
+        const drawn = stepGame(state, history, { type: 'DRAW' }, 1000)!.state!;
+        return stepGame(drawn, history, { type: 'UNDO' }, 2000)!.state!;
+      };
+
+      expect(play('unlimited').score).toBe(100);
+      expect(play('penalty').score).toBe(95);
+      expect(play('penalty').undoCount).toBe(1);
+      expect(getUndosLeft(play('penalty'))).toBeNull();
+    });
+
+    it('undoes and redoes auto-play promotions with the move before them', () => {
+      const history = new GameHistory();
+      const state = createInitialState({ autoPlay: 'safe' }, 42);
+      state.stock.cards = [];
+      state.waste.cards = [];
+      state.tableau.forEach(t => (t.cards = []));
+      state.foundations[0].cards = [createCard('hearts', 1, true)];
+      state.tableau[0].cards = [createCard('hearts', 2, true), createCard('spades', 4, true)];
+      state.tableau[1].cards = [createCard('hearts', 5, true)];
+
+      const moved = stepGame(state, history, {
+        type: 'MOVE',
+        from: { pileType: 'tableau', pileIndex: 0, cardIndex: 1 },
+        to: { pileType: 'tableau', pileIndex: 1, cardIndex: 1 },
+        cardCount: 1,
+      }, 1000)!.state!;
+      const played = stepGame(moved, history, { type: 'AUTO_PLAY' }, 1100)!.state!;
+      expect(played.foundations[0].cards).toHaveLength(2);
+      expect(stepGame(played, history, { type: 'AUTO_PLAY' }, 1200)).toBeNull();
+
+      const undone = stepGame(played, history, { type: 'UNDO' }, 2000)!.state!;
+      expect(undone.tableau).toEqual(state.tableau);
+      expect(undone.foundations[0].cards).toHaveLength(1);
+      expect(history.canUndo()).toBe(false);
+
+      const redone = redoGame(undone, history, 3000)!;
+      expect(redone.actions.map(a => a.type)).toEqual(['MOVE', 'AUTO_PLAY']);
+      expect(redone.state.foundations[0].cards).toHaveLength(2);
+    });
+
+    it('rejects a delta that does not match the position', () => {
+      const state = createInitialState({}, 42);
+      const delta = diffStates(state, drawFromStock(state));
+
+      expect(() => undoDelta(state, delta)).toThrow('History does not match');
     });
   });
 });
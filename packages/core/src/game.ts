@@ -8,31 +8,71 @@ import type {
   Move,
   MoveResult,
   HistoryEntry,
+  HistoryNode,
+  PlayedAction,
+  PlayAction,
+  RecordedAction,
 } from './types';
-import { createShuffledDeck, flipCard } from './deck';
+import {
+  DEAL_ALGORITHM,
+  createCard,
+  createCardId,
+  createDeck,
+  shuffle,
+  shuffleWithSeed,
+  flipCard,
+} from './deck';
 import {
   isValidMove,
+  isCovered,
   getPile,
   checkWinCondition,
   findAutoCompleteMove,
+  findAutoPlayMove,
+  getDrawCount,
+  canResetStock,
+  getUndosLeft,
 } from './rules';
-import { calculateMoveScore, getInitialScore, getRecycleWastePenalty } from './scoring';
+import {
+  calculateMoveScore,
+  getInitialScore,
+  getRecycleWastePenalty,
+  getUndoPenalty,
+  applyPenalty,
+  chargeTimePenalty,
+  getTimeBonus,
+} from './scoring';
+import { diffStates, undoDelta, redoDelta } from './delta';
+import { RULE_SETS, getRuleSet } from './variants';
+import { PersistentList } from './persistent';
 
 /**
  * Default game configuration
  */
 export const DEFAULT_CONFIG: GameConfig = {
+  variant: 'klondike',
   drawMode: 'draw-one',
+  drawCount: null,
   scoringMode: 'standard',
+  scoringProfile: null,
+  timedGame: false,
   unlimitedPasses: true,
+  passLimit: null,
+  undoMode: 'unlimited',
+  undoLimit: 3,
   autoFlipTableau: false, // Match original Windows Solitaire - click to flip
+  autoPlay: 'off',
+  spiderSuits: 1,
+  decks: 1,
+  tableauColumns: 7,
+  dealAlgorithm: DEAL_ALGORITHM,
 };
 
 /**
  * Create an empty pile of a given type
  */
 function createPile(type: Pile['type'], index: number): Pile {
-  const id = type === 'tableau' || type === 'foundation' 
+  const id = type === 'tableau' || type === 'foundation' || type === 'cell'
     ? `${type}-${index}` 
     : type;
   
@@ -45,61 +85,69 @@ function createPile(type: Pile['type'], index: number): Pile {
 }
 
 /**
- * Create the initial game state with a shuffled deck
+ * Check that a config can be dealt, returning why not (or null)
+ * Configs from outside the code (props, saved games, replay logs) should be
+ * checked with this first, as createInitialState throws on them.
+ */
+export function validateConfig(config: Partial<GameConfig> = {}): string | null {
+  const fullConfig: GameConfig = { ...DEFAULT_CONFIG, ...config };
+  if (!Object.prototype.hasOwnProperty.call(RULE_SETS, fullConfig.variant)) {
+    return `Unknown variant: ${fullConfig.variant}`;
+  }
+  return getRuleSet(fullConfig.variant).validateConfig?.(fullConfig) ?? null;
+}
+
+/**
+ * Create the initial game state with a shuffled deck, dealt by the variant's rule set
+ * Throws if the rule set can't deal the config (see validateConfig).
  */
 export function createInitialState(
   config: Partial<GameConfig> = {},
   seed?: number
 ): GameState {
   const fullConfig: GameConfig = { ...DEFAULT_CONFIG, ...config };
-  const deck = createShuffledDeck(seed);
+  const configError = validateConfig(fullConfig);
+  if (configError) {
+    throw new Error(configError);
+  }
+  const rules = getRuleSet(fullConfig.variant);
+  const cards = rules.createDeck?.(fullConfig) ?? createDeck();
+  const deck = rules.shuffleDeck
+    ? rules.shuffleDeck(cards, seed)
+    : seed !== undefined ? shuffleWithSeed(cards, seed, fullConfig.dealAlgorithm) : shuffle(cards);
+  const layout = rules.layout(fullConfig);
 
   // Create empty piles
   const stock = createPile('stock', 0);
   const waste = createPile('waste', 0);
-  const foundations: [Pile, Pile, Pile, Pile] = [
-    createPile('foundation', 0),
-    createPile('foundation', 1),
-    createPile('foundation', 2),
-    createPile('foundation', 3),
-  ];
-  const tableau: [Pile, Pile, Pile, Pile, Pile, Pile, Pile] = [
-    createPile('tableau', 0),
-    createPile('tableau', 1),
-    createPile('tableau', 2),
-    createPile('tableau', 3),
-    createPile('tableau', 4),
-    createPile('tableau', 5),
-    createPile('tableau', 6),
-  ];
-
-  // Deal cards to tableau
-  let cardIndex = 0;
-  for (let col = 0; col < 7; col++) {
-    for (let row = col; row < 7; row++) {
-      const card = deck[cardIndex++];
-      // Only the top card (first card dealt to each pile) is face up
-      const isFaceUp = row === col;
-      tableau[row].cards.push(flipCard(card, isFaceUp));
-    }
-  }
-
-  // Remaining cards go to stock (face down)
-  while (cardIndex < deck.length) {
-    stock.cards.push(deck[cardIndex++]);
-  }
+  const foundations = Array.from({ length: layout.foundations }, (_, i) => createPile('foundation', i));
+  const tableau = Array.from({ length: layout.tableau }, (_, i) => createPile('tableau', i));
+  const cells = Array.from({ length: layout.cells }, (_, i) => createPile('cell', i));
+
+  const deal = rules.deal(deck, fullConfig);
+  deal.tableau.forEach((cards, i) => {
+    tableau[i].cards = cards;
+  });
+  deal.foundations?.forEach((cards, i) => {
+    foundations[i].cards = cards;
+  });
+  stock.cards = deal.stock;
 
   return {
     stock,
     waste,
     foundations,
     tableau,
-    score: getInitialScore(fullConfig.scoringMode),
+    cells,
+    score: getInitialScore(fullConfig),
     moves: 0,
     startTime: null,
     endTime: null,
     isWon: false,
     stockPasses: 0,
+    timeCharged: 0,
+    undoCount: 0,
+    seed: seed ?? null,
     config: fullConfig,
   };
 }
@@ -115,31 +163,146 @@ export function cloneState(state: GameState): GameState {
     foundations: state.foundations.map(f => ({
       ...f,
       cards: [...f.cards.map(c => ({ ...c }))],
-    })) as [Pile, Pile, Pile, Pile],
+    })),
     tableau: state.tableau.map(t => ({
       ...t,
       cards: [...t.cards.map(c => ({ ...c }))],
-    })) as [Pile, Pile, Pile, Pile, Pile, Pile, Pile],
+    })),
+    cells: state.cells.map(c => ({
+      ...c,
+      cards: [...c.cards.map(card => ({ ...card }))],
+    })),
     config: { ...state.config },
   };
 }
 
 /**
- * Draw cards from stock to waste
+ * Replace the cards of one pile, sharing every other pile with the old state
  */
-export function drawFromStock(state: GameState): GameState {
+function withPile(
+  state: GameState,
+  location: Pick<CardLocation, 'pileType' | 'pileIndex'>,
+  cards: Card[]
+): GameState {
+  const replace = (piles: Pile[]) =>
+    piles.map((pile, i) => (i === location.pileIndex ? { ...pile, cards } : pile));
+
+  switch (location.pileType) {
+    case 'stock':
+      return { ...state, stock: { ...state.stock, cards } };
+    case 'waste':
+      return { ...state, waste: { ...state.waste, cards } };
+    case 'foundation':
+      return { ...state, foundations: replace(state.foundations) };
+    case 'tableau':
+      return { ...state, tableau: replace(state.tableau) };
+    case 'cell':
+      return { ...state, cells: replace(state.cells) };
+  }
+}
+
+/**
+ * Copy the piles of a state (but not its cards) for a rule set hook to
+ * change in place
+ */
+function draftPiles(state: GameState): GameState {
+  const copy = (pile: Pile): Pile => ({ ...pile, cards: [...pile.cards] });
+  return {
+    ...state,
+    stock: copy(state.stock),
+    waste: copy(state.waste),
+    foundations: state.foundations.map(copy),
+    tableau: state.tableau.map(copy),
+    cells: state.cells.map(copy),
+  };
+}
+
+/**
+ * Put back the original pile objects a draft left unchanged, so untouched
+ * piles stay equal by reference
+ */
+function sharePiles(original: GameState, draft: GameState): GameState {
+  const share = (pile: Pile, before: Pile): Pile =>
+    pile.cards.length === before.cards.length && pile.cards.every((card, i) => card === before.cards[i])
+      ? before
+      : pile;
+  return {
+    ...draft,
+    stock: share(draft.stock, original.stock),
+    waste: share(draft.waste, original.waste),
+    foundations: draft.foundations.map((pile, i) => share(pile, original.foundations[i])),
+    tableau: draft.tableau.map((pile, i) => share(pile, original.tableau[i])),
+    cells: draft.cells.map((pile, i) => share(pile, original.cells[i])),
+  };
+}
+
+/**
+ * Move finished sequences off the tableau (see RuleSet.removeCompletedRuns)
+ */
+function removeCompletedRuns(state: GameState): { state: GameState; completedRuns: number } {
+  const rules = getRuleSet(state.config.variant);
+  if (!rules.removeCompletedRuns) {
+    return { state, completedRuns: 0 };
+  }
+
+  const draft = draftPiles(state);
+  const completedRuns = rules.removeCompletedRuns(draft);
+  return { state: completedRuns > 0 ? sharePiles(state, draft) : state, completedRuns };
+}
+
+/**
+ * Check if cards can be drawn from the stock now
+ */
+export function canDrawFromStock(state: GameState): boolean {
   if (state.stock.cards.length === 0) {
-    return state;
+    return false;
   }
+  return getRuleSet(state.config.variant).canDrawFromStock?.(state) ?? true;
+}
 
-  const newState = cloneState(state);
-  const drawCount = state.config.drawMode === 'draw-three' ? 3 : 1;
-  const cardsToMove = Math.min(drawCount, newState.stock.cards.length);
+/**
+ * Draw cards from stock to waste (or deal them as the rule set directs)
+ * Returns the same state if nothing can be drawn
+ */
+export function drawFromStock(state: GameState): GameState {
+  if (!canDrawFromStock(state)) {
+    return state;
+  }
 
-  // Move cards from stock to waste
-  for (let i = 0; i < cardsToMove; i++) {
-    const card = newState.stock.cards.pop()!;
-    newState.waste.cards.push(flipCard(card, true));
+  const rules = getRuleSet(state.config.variant);
+  let newState: GameState;
+
+  if (rules.drawFromStock) {
+    const draft = draftPiles(state);
+    rules.drawFromStock(draft);
+
+    // Dealing onto the tableau can complete runs, which score like a move
+    const completedRuns = rules.removeCompletedRuns?.(draft) ?? 0;
+    newState = sharePiles(state, draft);
+    newState.score += calculateMoveScore({
+      from: { pileType: 'stock', pileIndex: 0, cardIndex: newState.stock.cards.length },
+      to: { pileType: 'tableau', pileIndex: 0, cardIndex: 0 },
+      cardCount: state.stock.cards.length - newState.stock.cards.length,
+      flippedCard: false,
+      scoreChange: 0,
+      completedRuns,
+    }, newState);
+
+    if (checkWinCondition(newState)) {
+      newState.isWon = true;
+      newState.endTime = Date.now();
+    }
+  } else {
+    const cardsToMove = Math.min(getDrawCount(state.config), state.stock.cards.length);
+    const remaining = state.stock.cards.length - cardsToMove;
+
+    // Turn cards from the top of the stock onto the waste
+    const drawn = state.stock.cards.slice(remaining).reverse().map(card => flipCard(card, true));
+    newState = withPile(
+      withPile(state, { pileType: 'stock', pileIndex: 0 }, state.stock.cards.slice(0, remaining)),
+      { pileType: 'waste', pileIndex: 0 },
+      [...state.waste.cards, ...drawn]
+    );
   }
 
   // Start timer on first move
@@ -156,35 +319,49 @@ export function drawFromStock(state: GameState): GameState {
  * Reset waste back to stock
  */
 export function resetStock(state: GameState): GameState {
-  if (state.waste.cards.length === 0) {
+  if (!canResetStock(state)) {
     return state;
   }
 
-  // Check if we can reset in Vegas mode
-  if (state.config.scoringMode === 'vegas' && !state.config.unlimitedPasses) {
-    if (state.stockPasses >= 3) {
-      return state; // Can't reset anymore
-    }
-  }
-
-  const newState = cloneState(state);
-
   // Move all waste cards back to stock (reversed, face down)
-  while (newState.waste.cards.length > 0) {
-    const card = newState.waste.cards.pop()!;
-    newState.stock.cards.push(flipCard(card, false));
-  }
+  const recycled = [...state.waste.cards].reverse().map(card => flipCard(card, false));
+  const newState = withPile(
+    withPile(state, { pileType: 'stock', pileIndex: 0 }, [...state.stock.cards, ...recycled]),
+    { pileType: 'waste', pileIndex: 0 },
+    []
+  );
 
   newState.stockPasses++;
   newState.moves++;
 
-  // Apply recycling penalty in standard draw-three mode
-  const penalty = getRecycleWastePenalty(newState);
-  newState.score = Math.max(0, newState.score + penalty);
+  // Apply the recycling penalty (standard draw-three by default)
+  newState.score = applyPenalty(newState.score, getRecycleWastePenalty(newState), newState.config);
 
   return newState;
 }
 
+/**
+ * Flip face-down tableau cards that nothing overlaps any more (grid layouts)
+ * Returns the same state if no card was flipped
+ */
+function revealUncoveredCards(state: GameState): GameState {
+  if (!getRuleSet(state.config.variant).layout(state.config).grid) {
+    return state;
+  }
+
+  let revealed = false;
+  const tableau = state.tableau.map((pile, i) => {
+    const topCard = pile.cards.at(-1);
+    if (!topCard || topCard.faceUp || isCovered(state, i)) {
+      return pile;
+    }
+    revealed = true;
+    return { ...pile, cards: [...pile.cards.slice(0, -1), flipCard(topCard, true)] };
+  });
+
+  return revealed ? { ...state, tableau } : state;
+}
+
 /**
  * Execute a move between piles
  */
@@ -199,26 +376,33 @@ export function executeMove(
     return { success: false, error: 'Invalid move' };
   }
 
-  const newState = cloneState(state);
-  const sourcePile = getPile(newState, from)!;
-  const destPile = getPile(newState, to)!;
-
-  // Remove cards from source
-  const movedCards = sourcePile.cards.splice(from.cardIndex, cardCount);
-
-  // Add cards to destination
-  destPile.cards.push(...movedCards);
+  // Only the two piles involved become new objects
+  const sourceCards = getPile(state, from)!.cards;
+  const movedCards = sourceCards.slice(from.cardIndex, from.cardIndex + cardCount);
+  const remainingCards = [...sourceCards.slice(0, from.cardIndex), ...sourceCards.slice(from.cardIndex + cardCount)];
 
   // Check if we need to flip the new top card of source tableau
   let flippedCard = false;
-  if (sourcePile.type === 'tableau' && sourcePile.cards.length > 0 && newState.config.autoFlipTableau) {
-    const topCard = sourcePile.cards.at(-1)!;
-    if (!topCard.faceUp) {
-      sourcePile.cards[sourcePile.cards.length - 1] = flipCard(topCard, true);
-      flippedCard = true;
-    }
+  const topCard = remainingCards.at(-1);
+  const autoFlip = state.config.autoFlipTableau || getRuleSet(state.config.variant).autoFlipTableau;
+  if (from.pileType === 'tableau' && topCard && !topCard.faceUp && autoFlip) {
+    remainingCards[remainingCards.length - 1] = flipCard(topCard, true);
+    flippedCard = true;
   }
 
+  const moved = withPile(state, from, remainingCards);
+  let newState = withPile(moved, to, [...getPile(moved, to)!.cards, ...movedCards]);
+
+  // Turn up cards the move uncovered in grid layouts (always, as autoFlipTableau
+  // only covers Klondike-style columns)
+  const revealed = revealUncoveredCards(newState);
+  flippedCard ||= revealed !== newState;
+  newState = revealed;
+
+  const removed = removeCompletedRuns(newState);
+  const completedRuns = removed.completedRuns;
+  newState = removed.state;
+
   // Start timer on first move
   if (newState.startTime === null) {
     newState.startTime = Date.now();
@@ -231,6 +415,7 @@ export function executeMove(
     cardCount,
     flippedCard,
     scoreChange: 0,
+    ...(completedRuns > 0 && { completedRuns }),
   };
 
   // Calculate and apply score
@@ -255,7 +440,7 @@ export function flipTableauCard(
   state: GameState,
   tableauIndex: number
 ): MoveResult {
-  if (tableauIndex < 0 || tableauIndex >= 7) {
+  if (tableauIndex < 0 || tableauIndex >= state.tableau.length) {
     return { success: false, error: 'Invalid tableau index' };
   }
 
@@ -269,9 +454,15 @@ export function flipTableauCard(
     return { success: false, error: 'Card is already face up' };
   }
 
-  const newState = cloneState(state);
-  const newTableau = newState.tableau[tableauIndex];
-  newTableau.cards[newTableau.cards.length - 1] = flipCard(topCard, true);
+  if (isCovered(state, tableauIndex)) {
+    return { success: false, error: 'Card is covered' };
+  }
+
+  const newState = withPile(
+    state,
+    { pileType: 'tableau', pileIndex: tableauIndex },
+    [...tableau.cards.slice(0, -1), flipCard(topCard, true)]
+  );
 
   // Start timer on first action
   if (newState.startTime === null) {
@@ -281,6 +472,33 @@ export function flipTableauCard(
   return { success: true, state: newState };
 }
 
+/**
+ * Apply a single player action to a state
+ * Draws and recycles that would leave the state unchanged are reported as failures
+ */
+export function applyAction(state: GameState, action: PlayAction): MoveResult {
+  switch (action.type) {
+    case 'DRAW_FROM_STOCK': {
+      const newState = drawFromStock(state);
+      return newState === state
+        ? { success: false, error: 'Stock is empty' }
+        : { success: true, state: newState };
+    }
+    case 'RESET_STOCK': {
+      const newState = resetStock(state);
+      return newState === state
+        ? { success: false, error: 'Cannot recycle the waste' }
+        : { success: true, state: newState };
+    }
+    case 'MOVE_CARDS':
+      return executeMove(state, action.from, action.to, action.cardCount);
+    case 'FLIP_CARD':
+      return flipTableauCard(state, action.tableauIndex);
+    default:
+      return { success: false, error: 'Unknown action' };
+  }
+}
+
 /**
  * Attempt to auto-move a card to a foundation
  * Used for double-click behaviour
@@ -302,7 +520,7 @@ export function canAutoMove(
   // For top card, check foundations first
   if (from.cardIndex === sourcePile.cards.length - 1) {
     // Try foundations
-    for (let i = 0; i < 4; i++) {
+    for (let i = 0; i < state.foundations.length; i++) {
       const to: CardLocation = {
         pileType: 'foundation',
         pileIndex: i,
@@ -315,7 +533,7 @@ export function canAutoMove(
 
     // If it's a King, try empty tableaux
     if (card.rank === 13) {
-      for (let i = 0; i < 7; i++) {
+      for (let i = 0; i < state.tableau.length; i++) {
         if (state.tableau[i].cards.length === 0) {
           return {
             pileType: 'tableau',
@@ -333,7 +551,7 @@ export function canAutoMove(
         if (!sourcePile.cards[i].faceUp) return null;
       }
 
-      for (let i = 0; i < 7; i++) {
+      for (let i = 0; i < state.tableau.length; i++) {
         if (state.tableau[i].cards.length === 0) {
           return {
             pileType: 'tableau',
@@ -373,7 +591,7 @@ export function autoMoveToFoundation(
       
       if (canMoveStack) {
         // Try to find an empty tableau
-        for (let i = 0; i < 7; i++) {
+        for (let i = 0; i < state.tableau.length; i++) {
           if (state.tableau[i].cards.length === 0) {
             const to: CardLocation = {
               pileType: 'tableau',
@@ -395,7 +613,7 @@ export function autoMoveToFoundation(
   }
 
   // First, try to find a valid foundation
-  for (let i = 0; i < 4; i++) {
+  for (let i = 0; i < state.foundations.length; i++) {
     const to: CardLocation = {
       pileType: 'foundation',
       pileIndex: i,
@@ -409,7 +627,7 @@ export function autoMoveToFoundation(
 
   // If it's a King, try to find an empty tableau
   if (card.rank === 13) {
-    for (let i = 0; i < 7; i++) {
+    for (let i = 0; i < state.tableau.length; i++) {
       if (state.tableau[i].cards.length === 0) {
         const to: CardLocation = {
           pileType: 'tableau',
@@ -438,6 +656,20 @@ export function autoCompleteStep(state: GameState): GameState | null {
   return result.success ? result.state! : null;
 }
 
+/**
+ * Promote one card to a foundation as the autoPlay option allows
+ * Returns null if no card qualifies
+ */
+export function autoPlayStep(state: GameState): GameState | null {
+  const move = findAutoPlayMove(state);
+  if (!move) {
+    return null;
+  }
+
+  const result = executeMove(state, move.from, move.to, 1);
+  return result.success ? result.state! : null;
+}
+
 /**
  * Get all cards currently in the game in a flat array
  * Useful for debugging and validation
@@ -448,34 +680,49 @@ export function getAllCards(state: GameState): Card[] {
     ...state.waste.cards,
     ...state.foundations.flatMap(f => f.cards),
     ...state.tableau.flatMap(t => t.cards),
+    ...state.cells.flatMap(c => c.cards),
   ];
 }
 
 /**
  * Validate that the game state is consistent
- * (52 cards, no duplicates, etc.)
+ * (every card of the variant's deck exactly once, foundations in order, etc.)
  */
 export function validateState(state: GameState): { valid: boolean; errors: string[] } {
   const errors: string[] = [];
   const allCards = getAllCards(state);
+  const rules = getRuleSet(state.config.variant);
+  const deck = rules.createDeck?.(state.config) ?? createDeck();
+  const deckIds = new Set(deck.map(card => card.id));
 
   // Check total card count
-  if (allCards.length !== 52) {
-    errors.push(`Expected 52 cards, found ${allCards.length}`);
+  if (allCards.length !== deck.length) {
+    errors.push(`Expected ${deck.length} cards, found ${allCards.length}`);
   }
 
-  // Check for duplicates
+  // Check for duplicates and cards from outside the deck
   const cardIds = new Set<string>();
   for (const card of allCards) {
     if (cardIds.has(card.id)) {
       errors.push(`Duplicate card: ${card.id}`);
+    } else if (deckIds.has(createCardId(card.suit, card.rank)) && !deckIds.has(card.id)) {
+      // More copies than the deck holds (loaded games number repeats as copies)
+      errors.push(`Duplicate card: ${createCardId(card.suit, card.rank)}`);
+    } else if (!deckIds.has(card.id)) {
+      errors.push(`Unexpected card: ${card.id}`);
     }
     cardIds.add(card.id);
   }
 
   // Check foundation consistency
-  for (let i = 0; i < 4; i++) {
+  for (let i = 0; i < state.foundations.length; i++) {
     const foundation = state.foundations[i];
+    if (rules.isValidFoundation) {
+      if (!rules.isValidFoundation(foundation)) {
+        errors.push(`Foundation ${i} cards not in a legal order`);
+      }
+      continue;
+    }
     for (let j = 0; j < foundation.cards.length; j++) {
       const card = foundation.cards[j];
       if (j === 0 && card.rank !== 1) {
@@ -496,84 +743,554 @@ export function validateState(state: GameState): { valid: boolean; errors: strin
   return { valid: errors.length === 0, errors };
 }
 
+/**
+ * Whether an action follows on from the one before it (auto-complete and
+ * auto-play steps), so undo and redo take them together
+ */
+function isFollowUpAction(action: RecordedAction): boolean {
+  return action.type === 'AUTO_COMPLETE_STEP' || action.type === 'AUTO_PLAY';
+}
+
+/**
+ * Whether two recorded actions do the same thing
+ */
+function isSameAction(a: RecordedAction, b: RecordedAction): boolean {
+  const sameLocation = (x: CardLocation, y: CardLocation) =>
+    x.pileType === y.pileType && x.pileIndex === y.pileIndex && x.cardIndex === y.cardIndex;
+
+  switch (a.type) {
+    case 'MOVE':
+      return b.type === 'MOVE' && sameLocation(a.from, b.from) && sameLocation(a.to, b.to) && a.cardCount === b.cardCount;
+    case 'AUTO_MOVE':
+      return b.type === 'AUTO_MOVE' && sameLocation(a.from, b.from);
+    case 'FLIP_CARD':
+      return b.type === 'FLIP_CARD' && a.tableauIndex === b.tableauIndex;
+    default:
+      return a.type === b.type;
+  }
+}
+
 /**
  * Game history manager for undo/redo
+ * History is a tree: playing a different action after an undo starts a new
+ * branch instead of discarding the undone line, and redo follows the branch
+ * most recently played. Entries are small deltas rather than snapshots, so
+ * history is unlimited. Nodes are kept in a persistent list, so a copy costs
+ * nothing and each change copies only the nodes it touches.
  */
 export class GameHistory {
-  private history: HistoryEntry[] = [];
-  private currentIndex: number = -1;
-  private readonly maxHistory: number = 100;
+  private nodes = PersistentList.of(createRootNode());
+  private current: number = 0;
+  /** Every action played to reach the current position, undos included */
+  private played = PersistentList.of<PlayedAction>();
+  /** The actions played before each node was last played to, by node ID */
+  private playedBefore = PersistentList.of(PersistentList.of<PlayedAction>());
+  /** The node list getNodes last returned, while nothing has changed */
+  private nodeArray: HistoryNode[] | null = null;
 
   /**
-   * Record a state change
+   * Get a node that is known to exist
    */
-  push(entry: HistoryEntry): void {
-    // Remove any future history if we're not at the end
-    this.history = this.history.slice(0, this.currentIndex + 1);
+  private node(id: number): HistoryNode {
+    return this.nodes.get(id)!;
+  }
 
-    // Add new entry
-    this.history.push(entry);
-    this.currentIndex++;
+  /**
+   * Replace a node with a changed copy (recorded nodes are never changed in place)
+   */
+  private update(id: number, changes: Partial<HistoryNode>): void {
+    this.nodes = this.nodes.set(id, { ...this.node(id), ...changes });
+    this.nodeArray = null;
+  }
 
-    // Trim old history if needed
-    if (this.history.length > this.maxHistory) {
-      this.history.shift();
-      this.currentIndex--;
+  /**
+   * Record a state change
+   * Playing an action that already starts a branch here (such as a redo)
+   * follows that branch, keeping everything recorded after it.
+   */
+  push(entry: HistoryEntry): void {
+    const playedBefore = this.played;
+    this.played = this.played.push({ action: entry.action, time: entry.time });
+    const node = this.node(this.current);
+    const existing = node.children
+      .map(id => this.node(id))
+      .find(child => isSameAction(child.entry!.action, entry.action));
+
+    if (existing) {
+      this.update(existing.id, { entry });
+      this.update(node.id, { redoChild: existing.id });
+      this.playedBefore = this.playedBefore.set(existing.id, playedBefore);
+      this.current = existing.id;
+      return;
     }
+
+    const child: HistoryNode = {
+      id: this.nodes.size,
+      parentId: node.id,
+      entry,
+      children: [],
+      redoChild: null,
+      depth: node.depth + 1,
+    };
+    this.nodes = this.nodes.push(child);
+    this.playedBefore = this.playedBefore.push(playedBefore);
+    this.update(node.id, { children: [...node.children, child.id], redoChild: child.id });
+    this.current = child.id;
   }
 
   /**
    * Check if undo is available
    */
   canUndo(): boolean {
-    return this.currentIndex >= 0;
+    return this.current !== 0;
   }
 
   /**
    * Check if redo is available
    */
   canRedo(): boolean {
-    return this.currentIndex < this.history.length - 1;
+    return this.node(this.current).redoChild !== null;
   }
 
   /**
-   * Get the state for undo
+   * Get the entry to undo (revert its delta with undoDelta)
    */
-  undo(): GameState | null {
+  undo(): HistoryEntry | null {
     if (!this.canUndo()) {
       return null;
     }
 
-    const entry = this.history[this.currentIndex];
-    this.currentIndex--;
-    return entry.previousState;
+    const node = this.node(this.current);
+    this.current = node.parentId!;
+    this.update(this.current, { redoChild: node.id });
+    return node.entry;
   }
 
   /**
-   * Get the move for redo (we need to re-execute it)
+   * Log an undo for getPlayedActions (once per UNDO action, however many
+   * entries it takes back)
+   */
+  recordUndo(time: number): void {
+    this.played = this.played.push({ action: { type: 'UNDO' }, time });
+  }
+
+  /**
+   * Get the entry to redo (apply its delta with redoDelta)
    */
   redo(): HistoryEntry | null {
-    if (!this.canRedo()) {
+    const next = this.node(this.current).redoChild;
+    if (next === null) {
       return null;
     }
 
-    this.currentIndex++;
-    return this.history[this.currentIndex];
+    this.current = next;
+    return this.node(next).entry;
+  }
+
+  /**
+   * Get the actions a redo plays again: the next undone action and the
+   * auto-complete and auto-play steps that were undone with it
+   */
+  getRedoActions(): RecordedAction[] {
+    const actions: RecordedAction[] = [];
+    for (let id = this.node(this.current).redoChild; id !== null; id = this.node(id).redoChild) {
+      const { action } = this.node(id).entry!;
+      if (actions.length > 0 && !isFollowUpAction(action)) {
+        break;
+      }
+      actions.push(action);
+    }
+    return actions;
+  }
+
+  /**
+   * Get the entries of the current line of play: those leading to the
+   * current position, then the undone ones redo would replay
+   */
+  getEntries(): HistoryEntry[] {
+    const line: HistoryEntry[] = [];
+    for (let node = this.node(this.current); node.parentId !== null; node = this.node(node.parentId)) {
+      line.unshift(node.entry!);
+    }
+    for (let id = this.node(this.current).redoChild; id !== null; id = this.node(id).redoChild) {
+      line.push(this.node(id).entry!);
+    }
+    return line;
+  }
+
+  /**
+   * Get every action played to reach the current position, undos included
+   * (for replay logs)
+   * After moveTo, these are the actions that last led to the position moved to.
+   */
+  getPlayedActions(): PlayedAction[] {
+    return this.played.toArray();
+  }
+
+  /**
+   * Get the index of the most recently applied entry in getEntries() (-1 if none)
+   */
+  getCurrentIndex(): number {
+    return this.node(this.current).depth - 1;
+  }
+
+  /**
+   * Get every node of the tree (the deal is node 0)
+   * The nodes are shared with the history, which never changes them; the
+   * same array is returned until the history changes.
+   */
+  getNodes(): HistoryNode[] {
+    if (!this.nodeArray) {
+      this.nodeArray = this.nodes.toArray();
+    }
+    return this.nodeArray;
+  }
+
+  /**
+   * Get the node of the current position
+   */
+  getCurrentNodeId(): number {
+    return this.current;
+  }
+
+  /**
+   * Make another node the current position (see goToHistoryNode)
+   * Returns the entries to revert, then the entries to apply, to get there
+   * from the current position, or null for an unknown node.
+   */
+  moveTo(nodeId: number): { undo: HistoryEntry[]; redo: HistoryEntry[] } | null {
+    const target = this.nodes.get(nodeId);
+    if (!target) {
+      return null;
+    }
+
+    // Climb from both ends to the branch point
+    const up: HistoryNode[] = [];
+    const down: HistoryNode[] = [];
+    let from = this.node(this.current);
+    let to = target;
+    while (from.depth > to.depth) {
+      up.push(from);
+      from = this.node(from.parentId!);
+    }
+    while (to.depth > from.depth) {
+      down.unshift(to);
+      to = this.node(to.parentId!);
+    }
+    while (from.id !== to.id) {
+      up.push(from);
+      from = this.node(from.parentId!);
+      down.unshift(to);
+      to = this.node(to.parentId!);
+    }
+
+    // Redo follows the branch just taken
+    for (const node of down) {
+      this.update(node.parentId!, { redoChild: node.id });
+    }
+
+    // The position's counters come from the last entry crossed, so the
+    // actions played are those that led to that entry
+    const last = down.at(-1);
+    const lastUp = up.at(-1);
+    if (last) {
+      this.played = this.playedBefore.get(last.id)!.push({ action: last.entry!.action, time: last.entry!.time });
+    } else if (lastUp) {
+      this.played = this.playedBefore.get(lastUp.id)!;
+    }
+    this.current = nodeId;
+
+    const undo = up.map(node => node.entry!);
+
+    return { undo, redo: down.map(node => node.entry!) };
+  }
+
+  /**
+   * Replace the history with a previously recorded line of play
+   */
+  load(entries: HistoryEntry[], currentIndex: number): void {
+    this.clear();
+    entries.forEach(entry => this.push(entry));
+
+    const depth = Math.min(Math.max(currentIndex, -1), entries.length - 1) + 1;
+    while (this.node(this.current).depth > depth) {
+      this.undo();
+    }
+  }
+
+  /**
+   * Replace the history with a previously recorded tree (see getNodes)
+   * Nodes must be in ID order, each after the node it was played from.
+   * Jumps after a restore log the line of play leading to the node jumped
+   * to, as the undos that first reached it aren't kept.
+   */
+  restore(nodes: HistoryNode[], currentNodeId: number, played: PlayedAction[]): void {
+    this.nodes = PersistentList.of(...nodes);
+    this.current = currentNodeId;
+    this.played = PersistentList.of(...played);
+    this.nodeArray = null;
+    this.playedBefore = nodes.slice(1).reduce((before, node) => {
+      const parent = this.node(node.parentId!);
+      const parentBefore = before.get(parent.id)!;
+      return before.push(parent.entry
+        ? parentBefore.push({ action: parent.entry.action, time: parent.entry.time })
+        : parentBefore);
+    }, PersistentList.of(PersistentList.of<PlayedAction>()));
+  }
+
+  /**
+   * Copy the history, so it can be changed without touching this one (as a
+   * React reducer must, since it may run twice)
+   * The copy shares every node until one of the two changes it.
+   */
+  clone(): GameHistory {
+    const copy = new GameHistory();
+    copy.nodes = this.nodes;
+    copy.current = this.current;
+    copy.played = this.played;
+    copy.playedBefore = this.playedBefore;
+    copy.nodeArray = this.nodeArray;
+    return copy;
   }
 
   /**
    * Clear all history
    */
   clear(): void {
-    this.history = [];
-    this.currentIndex = -1;
+    this.nodes = PersistentList.of(createRootNode());
+    this.current = 0;
+    this.played = PersistentList.of();
+    this.playedBefore = PersistentList.of(this.played);
+    this.nodeArray = null;
   }
 
   /**
-   * Get current history size
+   * Get the number of recorded entries, across every branch
    */
   size(): number {
-    return this.history.length;
+    return this.nodes.size - 1;
+  }
+}
+
+/**
+ * The node for the deal, where every history tree starts
+ */
+function createRootNode(): HistoryNode {
+  return { id: 0, parentId: null, entry: null, children: [], redoChild: null, depth: 0 };
+}
+
+/**
+ * Restore the position at any node of the history tree
+ * The position is rebuilt from the recorded deltas, so each branch keeps its
+ * own score and counters; redo then follows the branch jumped to.
+ * Returns null for an unknown node.
+ */
+export function goToHistoryNode(
+  state: GameState,
+  history: GameHistory,
+  nodeId: number,
+  now = Date.now()
+): GameState | null {
+  const path = history.moveTo(nodeId);
+  if (!path) {
+    return null;
+  }
+
+  let current = state;
+  for (const entry of path.undo) {
+    current = undoDelta(current, entry.delta);
+  }
+  for (const entry of path.redo) {
+    current = redoDelta(current, entry.delta);
+  }
+  return tickGameClock(current, now);
+}
+
+/**
+ * Charge a running timed game the time penalty for play up to now
+ * Returns the same state when nothing is due.
+ */
+export function tickGameClock(state: GameState, now: number): GameState {
+  if (state.startTime === null || state.isWon) {
+    return state;
+  }
+
+  const elapsedSeconds = Math.floor((now - state.startTime) / 1000);
+  const charged = chargeTimePenalty(state.score, state.timeCharged, elapsedSeconds, state.config);
+  return charged.timeCharged === state.timeCharged ? state : { ...state, ...charged };
+}
+
+/**
+ * Run the game clock over a state an action produced
+ * The clock starts on the first action and stops on the win, which in a
+ * timed game is charged up to the winning action and then given the bonus.
+ */
+function applyClock(previous: GameState, state: GameState, now: number): GameState {
+  const timed = previous.startTime === null && state.startTime !== null
+    ? { ...state, startTime: now }
+    : state;
+
+  if (!timed.isWon || previous.isWon) {
+    return tickGameClock(timed, now);
+  }
+
+  const charged = tickGameClock({ ...timed, isWon: false }, now);
+  const won = { ...charged, isWon: true, endTime: now };
+  return { ...won, score: won.score + getWinBonus(won) };
+}
+
+/**
+ * Time bonus a won timed game is (or was) given
+ */
+export function getWinBonus(state: GameState): number {
+  if (!state.config.timedGame || !state.isWon || state.startTime === null || state.endTime === null) {
+    return 0;
+  }
+  return getTimeBonus(state.config, Math.floor((state.endTime - state.startTime) / 1000));
+}
+
+/**
+ * Apply a UI action to a game, recording undo history as it goes
+ * This is the single source of truth for how dispatched actions behave, so
+ * live games and replays step through positions identically. `now` drives
+ * the game clock (replays pass the recorded action times).
+ * Returns null when the action has nothing to do (e.g. drawing from an empty
+ * stock or undoing with no history).
+ */
+export function stepGame(
+  state: GameState,
+  history: GameHistory,
+  action: RecordedAction,
+  now = Date.now()
+): MoveResult | null {
+  if (action.type === 'UNDO') {
+    return undoStep(state, history, now);
+  }
+
+  const result = applyRecordedAction(state, action);
+  if (!result?.success || !result.state) {
+    return result;
+  }
+
+  const newState = applyClock(state, result.state, now);
+  history.push({
+    action,
+    delta: diffStates(state, newState),
+    scoreChange: result.state.score - state.score,
+    time: now,
+  });
+  return { ...result, state: newState };
+}
+
+/**
+ * Play the most recently undone action again, with the auto-complete steps
+ * undone along with it
+ * The actions are re-applied through stepGame, so draws, recycles and flips
+ * follow the rules (and score) as before; they are returned for replay logs.
+ * Returns null when there is nothing to redo.
+ */
+export function redoGame(
+  state: GameState,
+  history: GameHistory,
+  now = Date.now()
+): { state: GameState; actions: RecordedAction[] } | null {
+  let current = state;
+  const actions: RecordedAction[] = [];
+
+  for (const action of history.getRedoActions()) {
+    const result = stepGame(current, history, action, now);
+    if (!result?.success || !result.state) {
+      break;
+    }
+    current = result.state;
+    actions.push(action);
+  }
+
+  return actions.length > 0 ? { state: current, actions } : null;
+}
+
+/**
+ * Take back the last recorded action
+ * Auto-complete and auto-play steps are taken back together with the action
+ * before them.
+ */
+function undoStep(state: GameState, history: GameHistory, now: number): MoveResult | null {
+  if (!history.canUndo()) {
+    return null;
+  }
+  if (getUndosLeft(state) === 0) {
+    return { success: false, error: 'No undos left' };
+  }
+
+  let entry = history.undo()!;
+  history.recordUndo(now);
+
+  let previousState = undoDelta(state, entry.delta);
+  let scoreChange = entry.scoreChange;
+  while (isFollowUpAction(entry.action) && history.canUndo()) {
+    entry = history.undo()!;
+    previousState = undoDelta(previousState, entry.delta);
+    scoreChange += entry.scoreChange;
+  }
+
+  // Take back the moves' own points (and any win bonus), keeping earlier
+  // undo and time penalties
+  const penalty = getUndoPenalty(state);
+  if (penalty !== 0) {
+    const score = applyPenalty(state.score - scoreChange - getWinBonus(state), penalty, state.config);
+    previousState = { ...previousState, score, timeCharged: state.timeCharged };
+  }
+  previousState = { ...previousState, undoCount: state.undoCount + 1 };
+
+  return { success: true, state: applyClock(state, previousState, now) };
+}
+
+/**
+ * Apply a UI action without running the clock or recording it (see stepGame)
+ */
+function applyRecordedAction(state: GameState, action: RecordedAction): MoveResult | null {
+  switch (action.type) {
+    case 'DRAW': {
+      if (state.stock.cards.length === 0) {
+        return null;
+      }
+      const newState = drawFromStock(state);
+      return newState === state
+        ? { success: false, error: 'Cannot draw from the stock' }
+        : { success: true, state: newState };
+    }
+
+    case 'RESET_STOCK': {
+      if (state.waste.cards.length === 0) {
+        return null;
+      }
+      const newState = resetStock(state);
+      return newState === state
+        ? { success: false, error: 'Waste cannot be recycled' }
+        : { success: true, state: newState };
+    }
+
+    case 'MOVE':
+      return executeMove(state, action.from, action.to, action.cardCount);
+
+    case 'AUTO_MOVE':
+      return autoMoveToFoundation(state, action.from);
+
+    case 'FLIP_CARD':
+      return flipTableauCard(state, action.tableauIndex);
+
+    case 'AUTO_COMPLETE_STEP': {
+      const newState = autoCompleteStep(state);
+      return newState ? { success: true, state: newState } : null;
+    }
+
+    case 'AUTO_PLAY': {
+      const newState = autoPlayStep(state);
+      return newState ? { success: true, state: newState } : null;
+    }
+
+    default:
+      return null;
   }
 }
 
@@ -583,31 +1300,25 @@ export class GameHistory {
 export function createWonState(config?: Partial<GameConfig>): GameState {
   const fullConfig: GameConfig = { ...DEFAULT_CONFIG, ...config };
   const suits: Array<'hearts' | 'diamonds' | 'clubs' | 'spades'> = ['hearts', 'diamonds', 'clubs', 'spades'];
+  const layout = getRuleSet(fullConfig.variant).layout(fullConfig);
   
-  // Create foundations with all cards in order
-  const foundations = suits.map((suit, index) => ({
+  // Create foundations with all cards in order (one set of suits per deck)
+  const foundations = Array.from({ length: layout.foundations }, (_, index) => ({
     id: `foundation-${index}`,
     type: 'foundation' as const,
-    cards: Array.from({ length: 13 }, (_, rank) => ({
-      id: `${suit}-${rank + 1}`,
-      suit,
-      rank: (rank + 1) as Rank,
-      faceUp: true,
-    })),
-  })) as [Pile, Pile, Pile, Pile];
+    cards: Array.from({ length: 13 }, (_, rank) =>
+      createCard(suits[index % suits.length], (rank + 1) as Rank, true, Math.floor(index / suits.length))
+    ),
+  }));
 
   const startTime = Date.now() - (180 * 1000); // 3 minutes ago
   const endTime = Date.now();
 
-  const tableau: [Pile, Pile, Pile, Pile, Pile, Pile, Pile] = [
-    { id: 'tableau-0', type: 'tableau', cards: [] },
-    { id: 'tableau-1', type: 'tableau', cards: [] },
-    { id: 'tableau-2', type: 'tableau', cards: [] },
-    { id: 'tableau-3', type: 'tableau', cards: [] },
-    { id: 'tableau-4', type: 'tableau', cards: [] },
-    { id: 'tableau-5', type: 'tableau', cards: [] },
-    { id: 'tableau-6', type: 'tableau', cards: [] },
-  ];
+  const tableau: Pile[] = Array.from({ length: layout.tableau }, (_, i) => ({
+    id: `tableau-${i}`,
+    type: 'tableau',
+    cards: [],
+  }));
 
   return {
     config: fullConfig,
@@ -615,11 +1326,15 @@ export function createWonState(config?: Partial<GameConfig>): GameState {
     waste: { id: 'waste', type: 'waste', cards: [] },
     foundations,
     tableau,
+    cells: [],
     score: fullConfig.scoringMode === 'vegas' ? 260 : 3000,
     moves: 150,
     startTime,
     endTime,
     isWon: true,
     stockPasses: 0,
+    timeCharged: 0,
+    undoCount: 0,
+    seed: null,
   };
 }
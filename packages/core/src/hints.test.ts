@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import { createCard } from './deck';
+import { createInitialState, applyAction } from './game';
+import { getHints, getBestHint, getMoveAvailability, hasValidMoves } from './hints';
+import { isValidMove } from './rules';
+import type { GameState } from './types';
+
+describe('hints', () => {
+  describe('getHints', () => {
+    it('only suggests legal actions', () => {
+      const state = createInitialState({}, 42);
+      const hints = getHints(state);
+
+      expect(hints.length).toBeGreaterThan(0);
+      for (const hint of hints) {
+        expect(applyAction(state, hint.action).success).toBe(true);
+        if (hint.action.type === 'MOVE_CARDS') {
+          const { from, to, cardCount } = hint.action;
+          expect(isValidMove(state, from, to, cardCount)).toBe(true);
+        }
+      }
+    });
+
+    it('ranks hints from best to worst', () => {
+      const hints = getHints(createInitialState({}, 7));
+      for (let i = 1; i < hints.length; i++) {
+        expect(hints[i - 1].score).toBeGreaterThanOrEqual(hints[i].score);
+      }
+    });
+
+    it('suggests drawing when the stock has cards', () => {
+      const state = createInitialState({}, 42);
+      const draw = getHints(state).find(h => h.reason === 'draw-stock');
+
+      expect(draw).toBeDefined();
+      expect(draw!.action).toEqual({ type: 'DRAW_FROM_STOCK' });
+      expect(draw!.source).toEqual({ pileType: 'stock', pileIndex: 0, cardIndex: 23 });
+    });
+
+    it('suggests recycling when only the waste is left', () => {
+      const state = createInitialState({}, 42);
+      state.waste.cards = state.stock.cards.map(c => ({ ...c, faceUp: true }));
+      state.stock.cards = [];
+
+      const reasons = getHints(state).map(h => h.reason);
+      expect(reasons).toContain('recycle-waste');
+      expect(reasons).not.toContain('draw-stock');
+    });
+
+    it('does not suggest recycling once the Vegas passes are used up', () => {
+      const state = createInitialState({ scoringMode: 'vegas', unlimitedPasses: false }, 42);
+      state.waste.cards = state.stock.cards.map(c => ({ ...c, faceUp: true }));
+      state.stock.cards = [];
+      state.stockPasses = 3;
+
+      expect(getHints(state).map(h => h.reason)).not.toContain('recycle-waste');
+    });
+
+    it('suggests flipping a face-down tableau card first', () => {
+      const state = createInitialState({}, 42);
+      state.tableau[3].cards = [createCard('clubs', 9, false)];
+
+      const best = getBestHint(state);
+      expect(best!.reason).toBe('flip-card');
+      expect(best!.action).toEqual({ type: 'FLIP_CARD', tableauIndex: 3 });
+    });
+
+    it('prefers foundation moves over tableau builds', () => {
+      const state = createInitialState({}, 42);
+      state.waste.cards = [createCard('spades', 1, true)];
+      state.stock.cards = [];
+
+      const best = getBestHint(state);
+      expect(best!.reason).toBe('to-foundation');
+      expect(best!.source).toEqual({ pileType: 'waste', pileIndex: 0, cardIndex: 0 });
+      expect(best!.target!.pileType).toBe('foundation');
+    });
+
+    it('marks moving a whole column into an empty one as no progress', () => {
+      const state = createInitialState({}, 42);
+      state.tableau[0].cards = [createCard('hearts', 13, true)];
+      state.tableau[1].cards = [];
+
+      const kingMove = getHints(state).find(h =>
+        h.source.pileType === 'tableau' && h.source.pileIndex === 0 && h.target?.pileIndex === 1
+      );
+      expect(kingMove!.reason).toBe('no-progress');
+    });
+
+    it('returns nothing for a won game', () => {
+      const state = createInitialState({}, 42);
+      state.isWon = true;
+      expect(getHints(state)).toEqual([]);
+      expect(getBestHint(state)).toBeNull();
+    });
+  });
+
+  describe('getMoveAvailability', () => {
+    /**
+     * A Klondike game down to a stuck nine of spades and two stock cards
+     */
+    function stuckGame(): GameState {
+      const state = createInitialState({}, 42);
+      state.waste.cards = [];
+      state.tableau.forEach(t => (t.cards = []));
+      state.tableau[0].cards = [createCard('hearts', 5, false), createCard('spades', 9, true)];
+      state.stock.cards = [createCard('clubs', 3, false), createCard('clubs', 2, false)];
+      return state;
+    }
+
+    it('calls a game stuck when turning the stock brings up nothing to play', () => {
+      const state = stuckGame();
+
+      expect(getMoveAvailability(state)).toBe('pointless');
+      expect(hasValidMoves(state)).toBe(false);
+    });
+
+    it('finds a playable card deeper in the stock', () => {
+      const state = stuckGame();
+      state.stock.cards.unshift(createCard('clubs', 1, false));
+
+      expect(getMoveAvailability(state)).toBe('playable');
+      expect(hasValidMoves(state)).toBe(true);
+    });
+
+    it('finds a playable card at the bottom of the waste', () => {
+      const state = stuckGame();
+      state.waste.cards = [createCard('diamonds', 1, true), createCard('spades', 4, true)];
+
+      expect(getMoveAvailability(state)).toBe('playable');
+    });
+
+    it('reports no moves once the stock is spent', () => {
+      const state = createInitialState({ unlimitedPasses: false }, 42);
+      const stuck = stuckGame();
+      state.tableau = stuck.tableau;
+      state.stock.cards = [];
+      state.waste.cards = stuck.stock.cards.map(card => ({ ...card, faceUp: true }));
+      state.stockPasses = 3;
+
+      expect(getMoveAvailability(state)).toBe('none');
+    });
+
+    it('ignores shifting a run between two equivalent cards', () => {
+      const state = stuckGame();
+      state.stock.cards = [];
+      state.tableau[0].cards = [createCard('spades', 6, true), createCard('hearts', 5, true)];
+      state.tableau[1].cards = [createCard('clubs', 6, true)];
+
+      expect(getMoveAvailability(state)).toBe('pointless');
+
+      state.tableau[0].cards[0].faceUp = false;
+      expect(getMoveAvailability(state)).toBe('playable');
+    });
+  });
+});
@@ -0,0 +1,290 @@
+import type { GameState, CardLocation, Pile, Hint, HintReason, MoveAvailability } from './types';
+import { getPile, findValidMoves, canResetStock } from './rules';
+import { canDrawFromStock, drawFromStock, resetStock } from './game';
+import { getRuleSet } from './variants';
+
+/**
+ * Heuristic score for each kind of hint (higher is suggested first)
+ */
+export const HINT_SCORES: Record<HintReason, number> = {
+  /** Turn over a face-down tableau card */
+  'flip-card': 110,
+  /** Any card to a foundation */
+  'to-foundation': 100,
+  /** Tableau move that uncovers a face-down card */
+  'reveals-card': 80,
+  /** Waste card onto the tableau */
+  'waste-to-tableau': 60,
+  /** Free cell card onto the tableau */
+  'from-cell': 60,
+  /** Whole column onto another column, leaving a space */
+  'empties-column': 50,
+  /** Other tableau builds */
+  'builds-tableau': 20,
+  /** Draw from the stock */
+  'draw-stock': 10,
+  /** Turn the waste back over */
+  'recycle-waste': 5,
+  /** Park a card in a free cell */
+  'to-cell': 3,
+  /** Foundation card back onto the tableau */
+  'from-foundation': 1,
+  /** Legal but changes nothing (e.g. a whole column into an empty one) */
+  'no-progress': 0,
+};
+
+/**
+ * Classify a legal card move
+ */
+function classifyMove(state: GameState, from: CardLocation, to: CardLocation): { reason: HintReason; score: number } {
+  if (from.pileType === 'foundation') {
+    return to.pileType === 'foundation'
+      ? { reason: 'no-progress', score: HINT_SCORES['no-progress'] }
+      : { reason: 'from-foundation', score: HINT_SCORES['from-foundation'] };
+  }
+
+  const revealsCard = from.pileType === 'tableau' &&
+    from.cardIndex > 0 &&
+    !state.tableau[from.pileIndex].cards[from.cardIndex - 1].faceUp;
+
+  if (to.pileType === 'foundation') {
+    return { reason: 'to-foundation', score: HINT_SCORES['to-foundation'] + (revealsCard ? from.cardIndex : 0) };
+  }
+
+  if (to.pileType === 'cell') {
+    return from.pileType === 'cell'
+      ? { reason: 'no-progress', score: HINT_SCORES['no-progress'] }
+      : { reason: 'to-cell', score: HINT_SCORES['to-cell'] };
+  }
+
+  if (from.pileType === 'waste') {
+    return { reason: 'waste-to-tableau', score: HINT_SCORES['waste-to-tableau'] };
+  }
+
+  if (from.pileType === 'cell') {
+    return { reason: 'from-cell', score: HINT_SCORES['from-cell'] };
+  }
+
+  if (revealsCard) {
+    // Prefer uncovering the columns with the most hidden cards
+    return { reason: 'reveals-card', score: HINT_SCORES['reveals-card'] + from.cardIndex };
+  }
+
+  if (from.cardIndex === 0) {
+    return state.tableau[to.pileIndex].cards.length === 0
+      ? { reason: 'no-progress', score: HINT_SCORES['no-progress'] }
+      : { reason: 'empties-column', score: HINT_SCORES['empties-column'] };
+  }
+
+  return { reason: 'builds-tableau', score: HINT_SCORES['builds-tableau'] };
+}
+
+/**
+ * Get every legal action from a position, best first
+ * Covers card moves from the waste, tableau, free cells and foundations, manual flips,
+ * drawing from the stock and recycling the waste
+ */
+export function getHints(state: GameState): Hint[] {
+  if (state.isWon) {
+    return [];
+  }
+
+  const hints: Hint[] = [];
+  // Empty free cells are interchangeable - only suggest the first
+  const firstEmptyCell = state.cells.findIndex(c => c.cards.length === 0);
+
+  const addMoves = (from: CardLocation) => {
+    const sourcePile = getPile(state, from)!;
+    const cardCount = sourcePile.cards.length - from.cardIndex;
+
+    for (const to of findValidMoves(state, from)) {
+      if (from.pileType === to.pileType && from.pileIndex === to.pileIndex) continue;
+      if (to.pileType === 'cell' && to.pileIndex !== firstEmptyCell) continue;
+
+      const { reason, score } = classifyMove(state, from, to);
+      hints.push({
+        action: { type: 'MOVE_CARDS', from, to, cardCount },
+        score,
+        reason,
+        source: from,
+        target: to,
+      });
+    }
+  };
+
+  // Manual flips
+  state.tableau.forEach((tableau, i) => {
+    const topCard = tableau.cards.at(-1);
+    if (topCard && !topCard.faceUp) {
+      hints.push({
+        action: { type: 'FLIP_CARD', tableauIndex: i },
+        score: HINT_SCORES['flip-card'],
+        reason: 'flip-card',
+        source: { pileType: 'tableau', pileIndex: i, cardIndex: tableau.cards.length - 1 },
+      });
+    }
+  });
+
+  // Card moves
+  if (state.waste.cards.length > 0) {
+    addMoves({ pileType: 'waste', pileIndex: 0, cardIndex: state.waste.cards.length - 1 });
+  }
+
+  state.tableau.forEach((tableau, i) => {
+    tableau.cards.forEach((card, j) => {
+      if (card.faceUp) {
+        addMoves({ pileType: 'tableau', pileIndex: i, cardIndex: j });
+      }
+    });
+  });
+
+  state.cells.forEach((cell, i) => {
+    if (cell.cards.length > 0) {
+      addMoves({ pileType: 'cell', pileIndex: i, cardIndex: 0 });
+    }
+  });
+
+  state.foundations.forEach((foundation, i) => {
+    if (foundation.cards.length > 0) {
+      addMoves({ pileType: 'foundation', pileIndex: i, cardIndex: foundation.cards.length - 1 });
+    }
+  });
+
+  // Stock
+  if (state.stock.cards.length > 0) {
+    if (canDrawFromStock(state)) {
+      hints.push({
+        action: { type: 'DRAW_FROM_STOCK' },
+        score: HINT_SCORES['draw-stock'],
+        reason: 'draw-stock',
+        source: { pileType: 'stock', pileIndex: 0, cardIndex: state.stock.cards.length - 1 },
+      });
+    }
+  } else if (canResetStock(state)) {
+    hints.push({
+      action: { type: 'RESET_STOCK' },
+      score: HINT_SCORES['recycle-waste'],
+      reason: 'recycle-waste',
+      source: { pileType: 'stock', pileIndex: 0, cardIndex: 0 },
+    });
+  }
+
+  // Stable sort keeps pile order for equal scores
+  return hints.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Get the single best suggestion, or null if there is nothing to do
+ */
+export function getBestHint(state: GameState): Hint | null {
+  return getHints(state)[0] ?? null;
+}
+
+/**
+ * Whether a legal card move changes the position in a way that matters
+ * Shifting a run between two cards it could equally sit on, a whole column
+ * into an empty one, or a card between free cells or back off a foundation
+ * doesn't count.
+ */
+function isUsefulMove(state: GameState, from: CardLocation, to: CardLocation): boolean {
+  if (from.pileType === 'foundation') {
+    return false;
+  }
+  if (to.pileType === 'foundation' || from.pileType === 'waste') {
+    return true;
+  }
+  if (from.pileType === 'cell') {
+    return to.pileType !== 'cell';
+  }
+
+  const source = state.tableau[from.pileIndex];
+  if (from.cardIndex === 0) {
+    return to.pileType !== 'tableau' || state.tableau[to.pileIndex].cards.length > 0;
+  }
+
+  const rules = getRuleSet(state.config.variant);
+  const card = source.cards[from.cardIndex];
+  const below = source.cards[from.cardIndex - 1];
+  if (
+    !below.faceUp ||
+    !rules.canPlaceOnTableau(card, { ...source, cards: source.cards.slice(0, from.cardIndex) }, state) ||
+    state.foundations.some(foundation => rules.canPlaceOnFoundation(below, foundation, state))
+  ) {
+    return true;
+  }
+
+  // Joining a run of its own suit (Spider)
+  const target = getPile(state, to)!.cards.at(-1);
+  return target !== undefined && target.suit === card.suit && below.suit !== card.suit;
+}
+
+/**
+ * Whether any pile other than the stock and waste differs between two states
+ */
+function changesTable(before: GameState, after: GameState): boolean {
+  const same = (a: Pile[], b: Pile[]) => a.every((pile, i) => pile === b[i]);
+  return !same(before.tableau, after.tableau) ||
+    !same(before.foundations, after.foundations) ||
+    !same(before.cells, after.cells);
+}
+
+/**
+ * Whether turning the stock through one full cycle (recycling the waste
+ * within the pass limit) brings up a waste card that can be played, or deals
+ * cards somewhere other than the waste (Spider, TriPeaks)
+ */
+function canPlayFromStock(state: GameState): boolean {
+  let current = state;
+  let recycled = false;
+
+  for (;;) {
+    let next: GameState;
+    if (current.stock.cards.length > 0) {
+      next = drawFromStock(current);
+    } else if (!recycled) {
+      next = resetStock(current);
+      recycled = true;
+    } else {
+      return false;
+    }
+
+    if (next === current) {
+      return false;
+    }
+    if (changesTable(current, next)) {
+      return true;
+    }
+    current = next;
+
+    if (current.waste.cards.length > 0) {
+      const wasteTop: CardLocation = { pileType: 'waste', pileIndex: 0, cardIndex: current.waste.cards.length - 1 };
+      if (findValidMoves(current, wasteTop).some(to => isUsefulMove(current, wasteTop, to))) {
+        return true;
+      }
+    }
+  }
+}
+
+/**
+ * Work out what is left to play: a move that changes the position (now or
+ * after turning the stock), only pointless moves, or nothing at all
+ */
+export function getMoveAvailability(state: GameState): MoveAvailability {
+  const hints = getHints(state);
+  const hasUsefulMove = hints.some(hint =>
+    hint.action.type === 'FLIP_CARD' ||
+    (hint.action.type === 'MOVE_CARDS' && isUsefulMove(state, hint.action.from, hint.action.to))
+  );
+
+  if (hasUsefulMove || canPlayFromStock(state)) {
+    return 'playable';
+  }
+  return hints.length > 0 ? 'pointless' : 'none';
+}
+
+/**
+ * Check if there are any moves left that change the position
+ */
+export function hasValidMoves(state: GameState): boolean {
+  return getMoveAvailability(state) === 'playable';
+}
@@ -8,13 +8,47 @@ export type {
   Pile,
   DrawMode,
   ScoringMode,
+  UndoMode,
+  AutoPlayMode,
+  ScoringProfile,
+  DealMode,
+  Variant,
+  SpiderSuits,
+  DealAlgorithm,
+  RandomGenerator,
   GameConfig,
   GameState,
   CardLocation,
   Move,
+  GameCounters,
+  PileChange,
+  StateDelta,
   HistoryEntry,
+  HistoryNode,
+  PlayedAction,
   GameAction,
+  PlayAction,
+  RecordedAction,
+  ReplayLog,
+  GameVerification,
+  VerifyOptions,
+  HintReason,
+  MoveAvailability,
+  Hint,
+  SolverLimits,
+  SolveStatus,
+  SolveResult,
+  WinnableDealOptions,
+  WinnableDeal,
+  SavedPosition,
+  SavedHistoryEntry,
+  SavedGame,
+  LoadGameResult,
   MoveResult,
+  Deal,
+  PileLayout,
+  GridSlot,
+  RuleSet,
 } from './types';
 
 export {
@@ -33,6 +67,9 @@ export {
   createDeck,
   shuffle,
   shuffleWithSeed,
+  createRandom,
+  randomInt,
+  DEAL_ALGORITHM,
   createShuffledDeck,
   flipCard,
   isSameCard,
@@ -46,41 +83,116 @@ export {
   getPile,
   getCardAt,
   canPickUpCards,
+  isCovered,
   isValidMove,
   findValidMoves,
   checkWinCondition,
-  hasValidMoves,
+  getDrawCount,
+  getPassLimit,
+  getUndosLeft,
+  canResetStock,
   canAutoComplete,
   findAutoCompleteMove,
+  findAutoPlayMove,
+  isSafeToPlay,
 } from './rules';
 
 // Scoring
 export {
+  STANDARD_PROFILE,
+  VEGAS_PROFILE,
+  SPIDER_PROFILE,
+  NO_SCORING_PROFILE,
   STANDARD_SCORES,
   VEGAS_SCORES,
+  getScoringProfile,
+  scoreMove,
+  calculateMoveScore,
   calculateStandardScore,
   calculateVegasScore,
-  calculateMoveScore,
+  calculateSpiderScore,
   getInitialScore,
   getRecycleWastePenalty,
+  getUndoPenalty,
+  applyPenalty,
   calculateTimeBonus,
+  getTimeBonus,
+  chargeTimePenalty,
+  TIME_PENALTY_INTERVAL,
   formatScore,
 } from './scoring';
 
 // Game state management
 export {
   DEFAULT_CONFIG,
+  validateConfig,
   createInitialState,
   createWonState,
   cloneState,
+  canDrawFromStock,
   drawFromStock,
   resetStock,
   executeMove,
   flipTableauCard,
+  applyAction,
+  stepGame,
+  redoGame,
+  goToHistoryNode,
+  tickGameClock,
+  getWinBonus,
   canAutoMove,
   autoMoveToFoundation,
   autoCompleteStep,
+  autoPlayStep,
   getAllCards,
   validateState,
   GameHistory,
 } from './game';
+
+// History deltas
+export {
+  diffStates,
+  undoDelta,
+  redoDelta,
+} from './delta';
+
+// Hints
+export {
+  HINT_SCORES,
+  getHints,
+  getBestHint,
+  getMoveAvailability,
+  hasValidMoves,
+} from './hints';
+
+// Solver
+export {
+  DEFAULT_SOLVER_LIMITS,
+  DEFAULT_WINNABLE_DEAL_OPTIONS,
+  solve,
+  createWinnableDeal,
+} from './solver';
+
+// Save games
+export {
+  SAVE_FORMAT_VERSION,
+  serializeGame,
+  deserializeGame,
+} from './save';
+
+// Replays
+export {
+  REPLAY_FORMAT_VERSION,
+  encodeReplayAction,
+  decodeReplayAction,
+  createReplayLog,
+  recordAction,
+  exportReplay,
+  replay,
+} from './replay';
+
+// Verification
+export { verifyGame } from './verify';
+
+// Variants
+export { RULE_SETS, getRuleSet, klondike, spider, freecell, pyramid, tripeaks, golf, yukon, russian } from './variants';
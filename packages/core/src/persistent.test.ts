@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { PersistentList } from './persistent';
+
+describe('PersistentList', () => {
+  it('keeps every earlier list unchanged', () => {
+    const empty = PersistentList.of<number>();
+    const one = empty.push(1);
+    const two = one.push(2);
+    const changed = two.set(0, 10);
+
+    expect(empty.toArray()).toEqual([]);
+    expect(one.toArray()).toEqual([1]);
+    expect(two.toArray()).toEqual([1, 2]);
+    expect(changed.toArray()).toEqual([10, 2]);
+  });
+
+  it('grows past a full trie level', () => {
+    let list = PersistentList.of<number>();
+    for (let i = 0; i < 1100; i++) {
+      list = list.push(i);
+    }
+    const changed = list.set(1050, -1).set(3, -3);
+
+    expect(list.size).toBe(1100);
+    expect(list.toArray()).toEqual(Array.from({ length: 1100 }, (_, i) => i));
+    expect(list.get(1099)).toBe(1099);
+    expect(changed.get(1050)).toBe(-1);
+    expect(changed.get(3)).toBe(-3);
+    expect(list.get(1050)).toBe(1050);
+  });
+
+  it('reads nothing past the end and rejects setting there', () => {
+    const list = PersistentList.of('a', 'b');
+
+    expect(list.get(2)).toBeUndefined();
+    expect(list.get(-1)).toBeUndefined();
+    expect(() => list.set(2, 'c')).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,92 @@
+const BITS = 5;
+const WIDTH = 1 << BITS;
+const MASK = WIDTH - 1;
+
+type Branch = unknown[];
+
+/**
+ * Copy the path to an index, putting a value there
+ */
+function setIn(node: Branch, shift: number, index: number, value: unknown): Branch {
+  const copy = node.slice();
+  const slot = (index >>> shift) & MASK;
+  copy[slot] = shift === 0 ? value : setIn((node[slot] as Branch | undefined) ?? [], shift - BITS, index, value);
+  return copy;
+}
+
+/**
+ * Append every value below a branch to a list
+ */
+function collect(node: Branch, shift: number, into: unknown[]): void {
+  if (shift === 0) {
+    into.push(...node);
+    return;
+  }
+  for (const child of node) {
+    collect(child as Branch, shift - BITS, into);
+  }
+}
+
+/**
+ * Immutable list with cheap updates
+ * Values sit in a 32-way trie, so set and push copy only the few branches on
+ * the path to the index they change, and every earlier list stays as it was.
+ */
+export class PersistentList<T> {
+  private constructor(
+    private readonly root: Branch,
+    private readonly shift: number,
+    readonly size: number
+  ) {}
+
+  /**
+   * Create a list of values
+   */
+  static of<T>(...values: T[]): PersistentList<T> {
+    return values.reduce((list, value) => list.push(value), new PersistentList<T>([], 0, 0));
+  }
+
+  /**
+   * Get the value at an index (undefined past the end)
+   */
+  get(index: number): T | undefined {
+    if (!Number.isInteger(index) || index < 0 || index >= this.size) {
+      return undefined;
+    }
+    let node = this.root;
+    for (let shift = this.shift; shift > 0; shift -= BITS) {
+      node = node[(index >>> shift) & MASK] as Branch;
+    }
+    return node[index & MASK] as T;
+  }
+
+  /**
+   * Get a list with the value at an existing index replaced
+   */
+  set(index: number, value: T): PersistentList<T> {
+    if (!Number.isInteger(index) || index < 0 || index >= this.size) {
+      throw new RangeError(`Index ${index} is outside the list`);
+    }
+    return new PersistentList(setIn(this.root, this.shift, index, value), this.shift, this.size);
+  }
+
+  /**
+   * Get a list with a value added to the end
+   */
+  push(value: T): PersistentList<T> {
+    // A full trie grows a level
+    if (this.size === 1 << (this.shift + BITS)) {
+      return new PersistentList(setIn([this.root], this.shift + BITS, this.size, value), this.shift + BITS, this.size + 1);
+    }
+    return new PersistentList(setIn(this.root, this.shift, this.size, value), this.shift, this.size + 1);
+  }
+
+  /**
+   * Get every value, in order
+   */
+  toArray(): T[] {
+    const values: unknown[] = [];
+    collect(this.root, this.shift, values);
+    return values as T[];
+  }
+}
@@ -0,0 +1,195 @@
+import { describe, it, expect } from 'vitest';
+import { createInitialState, stepGame, goToHistoryNode, GameHistory } from './game';
+import { STANDARD_PROFILE } from './scoring';
+import { verifyGame } from './verify';
+import { getHints } from './hints';
+import {
+  encodeReplayAction,
+  decodeReplayAction,
+  createReplayLog,
+  recordAction,
+  exportReplay,
+  replay,
+} from './replay';
+import type { GameConfig, GameState, RecordedAction, ScoringProfile } from './types';
+
+/**
+ * Drop wall-clock fields, which differ between a live game and its replay
+ */
+function withoutTimes(state: GameState) {
+  return { ...state, startTime: null, endTime: null };
+}
+
+describe('replay', () => {
+  describe('encodeReplayAction', () => {
+    it('round-trips every action type', () => {
+      const actions: RecordedAction[] = [
+        { type: 'DRAW' },
+        { type: 'RESET_STOCK' },
+        { type: 'AUTO_COMPLETE_STEP' },
+        { type: 'AUTO_PLAY' },
+        { type: 'UNDO' },
+        { type: 'FLIP_CARD', tableauIndex: 6 },
+        { type: 'AUTO_MOVE', from: { pileType: 'waste', pileIndex: 0, cardIndex: 12 } },
+        {
+          type: 'MOVE',
+          from: { pileType: 'tableau', pileIndex: 3, cardIndex: 5 },
+          to: { pileType: 'foundation', pileIndex: 1, cardIndex: 0 },
+          cardCount: 1,
+        },
+      ];
+
+      for (const action of actions) {
+        expect(decodeReplayAction(encodeReplayAction(action))).toEqual(action);
+      }
+    });
+
+    it('uses compact tokens', () => {
+      expect(encodeReplayAction({ type: 'DRAW' })).toBe('D');
+      expect(encodeReplayAction({
+        type: 'MOVE',
+        from: { pileType: 'tableau', pileIndex: 3, cardIndex: 5 },
+        to: { pileType: 'tableau', pileIndex: 1, cardIndex: 2 },
+        cardCount: 2,
+      })).toBe('Mt3.5:t1.2:2');
+    });
+
+    it('rejects invalid tokens', () => {
+      expect(() => decodeReplayAction('X')).toThrow();
+      expect(() => decodeReplayAction('Mt3.5')).toThrow();
+      expect(() => decodeReplayAction('Aq1.2')).toThrow();
+    });
+
+    it('rejects tokens with missing or trailing characters', () => {
+      for (const token of ['F', 'Dzz', 'UU', 'F1x', 'At0.1:', 'Mt0.1:t1.2:', 'Mt0.1:t1.2:1x', ' D', '']) {
+        expect(() => decodeReplayAction(token), token).toThrow('Invalid replay token');
+      }
+    });
+  });
+
+  describe('replay', () => {
+    it('rebuilds every intermediate state of a live game', () => {
+      const config = { drawMode: 'draw-three' as const };
+      let log = createReplayLog(config, 42);
+      const history = new GameHistory();
+      const live: GameState[] = [createInitialState(config, 42)];
+
+      const play = (action: RecordedAction) => {
+        log = recordAction(log, action, live.length * 1000);
+        const current = live[live.length - 1];
+        const result = stepGame(current, history, action);
+        live.push(result?.success && result.state ? result.state : current);
+      };
+
+      for (let i = 0; i < 40; i++) {
+        const hint = getHints(live[live.length - 1])[0];
+        if (!hint) break;
+        const { action } = hint;
+        switch (action.type) {
+          case 'DRAW_FROM_STOCK':
+            play({ type: 'DRAW' });
+            break;
+          case 'RESET_STOCK':
+            play({ type: 'RESET_STOCK' });
+            break;
+          case 'FLIP_CARD':
+            play({ type: 'FLIP_CARD', tableauIndex: action.tableauIndex });
+            break;
+          case 'MOVE_CARDS':
+            play({ type: 'MOVE', from: action.from, to: action.to, cardCount: action.cardCount });
+            break;
+        }
+        if (i % 7 === 6) play({ type: 'UNDO' });
+      }
+      // An invalid move is recorded too and leaves the position unchanged
+      play({
+        type: 'MOVE',
+        from: { pileType: 'tableau', pileIndex: 0, cardIndex: 0 },
+        to: { pileType: 'waste', pileIndex: 0, cardIndex: 0 },
+        cardCount: 1,
+      });
+
+      const states = replay(log);
+      expect(states).toHaveLength(live.length);
+      expect(states.map(withoutTimes)).toEqual(live.map(withoutTimes));
+      expect(log.times).toHaveLength(log.actions.length);
+    });
+
+    it('deals version 1 logs with the original shuffle', () => {
+      const log = { ...createReplayLog({}, 1), version: 1 };
+      delete (log.config as Partial<GameConfig>).dealAlgorithm;
+
+      const [initial] = replay(log);
+      expect(initial.tableau).toEqual(createInitialState({ dealAlgorithm: 1 }, 1).tableau);
+      expect(initial.tableau).not.toEqual(createInitialState({}, 1).tableau);
+    });
+
+    it('rejects logs from a newer format', () => {
+      const log = { ...createReplayLog({}, 1), version: 99 };
+      expect(() => replay(log)).toThrow();
+    });
+
+    it('rejects configs that cannot be dealt', () => {
+      const log = createReplayLog({ tableauColumns: 40 }, 1);
+      expect(() => replay(log)).toThrow('Replay config is invalid: 40 tableau columns need more than one deck');
+    });
+  });
+
+  describe('exportReplay', () => {
+    it('rebuilds a log from the undo history', () => {
+      const history = new GameHistory();
+      let state = createInitialState({}, 42);
+      const play = (action: RecordedAction, time: number) => {
+        state = stepGame(state, history, action, time)!.state!;
+      };
+
+      play({ type: 'DRAW' }, 5000);
+      play({ type: 'DRAW' }, 6000);
+      play({ type: 'UNDO' }, 7000);
+      play({ type: 'DRAW' }, 8000);
+
+      const log = exportReplay(state, history)!;
+      expect(log.actions).toEqual(['D', 'D', 'U', 'D']);
+      expect(log.times).toEqual([0, 1000, 2000, 3000]);
+
+      const states = replay(log);
+      const last = states[states.length - 1];
+      expect(last.stock).toEqual(state.stock);
+      expect(last.waste).toEqual(state.waste);
+    });
+
+    it('keeps undo penalties, and the log that reached a position jumped to', () => {
+      const profile: ScoringProfile = { ...STANDARD_PROFILE, initialScore: 100, undo: -10 };
+      const config: Partial<GameConfig> = { scoringProfile: profile, undoMode: 'penalty' };
+      const history = new GameHistory();
+      let state = createInitialState(config, 42);
+      for (const [i, action] of ([{ type: 'DRAW' }, { type: 'UNDO' }, { type: 'DRAW' }] as const).entries()) {
+        state = stepGame(state, history, action, i * 1000)!.state!;
+      }
+      expect(state.score).toBe(90);
+
+      const log = exportReplay(state, history)!;
+      expect(log.actions).toEqual(['D', 'U', 'D']);
+      expect(replay(log).at(-1)!.score).toBe(90);
+      expect(verifyGame(log, { scoringProfiles: [profile] }).score).toBe(90);
+
+      // The deal was last left after the undo, so jumping back keeps its penalty
+      state = goToHistoryNode(state, history, 0, 3000)!;
+      const jumped = exportReplay(state, history)!;
+      expect(jumped.actions).toEqual(['D', 'U']);
+      expect(replay(jumped).at(-1)!.score).toBe(state.score);
+
+      state = goToHistoryNode(state, history, 1, 4000)!;
+      expect(exportReplay(state, history)!.actions).toEqual(['D', 'U', 'D']);
+      expect(state.score).toBe(90);
+    });
+
+    it('returns null when the history does not reach the deal', () => {
+      const history = new GameHistory();
+      const state = stepGame(createInitialState({}, 42), history, { type: 'DRAW' }, 0)!.state!;
+
+      expect(exportReplay(state, new GameHistory())).toBeNull();
+      expect(exportReplay({ ...state, seed: null }, history)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,241 @@
+import type {
+  CardLocation,
+  PileType,
+  GameState,
+  GameConfig,
+  RecordedAction,
+  ReplayLog,
+} from './types';
+import { DEFAULT_CONFIG, validateConfig, createInitialState, stepGame, GameHistory } from './game';
+import { undoDelta } from './delta';
+
+/**
+ * Current replay format version
+ *
+ * Actions are encoded as short tokens:
+ * - `D` draw, `R` recycle the waste, `C` auto-complete step, `P` auto-play
+ *   step, `U` undo
+ * - `F<i>` flip the top card of tableau column i
+ * - `A<loc>` auto-move (double-click) the card at loc
+ * - `M<from>:<to>:<count>` move count cards
+ *
+ * A location is a pile letter (s, w, f, t, c), the pile index and the card
+ * index, e.g. `t3.5` is the sixth card of the fourth tableau column.
+ *
+ * Version 2 logs deal from the seed with `config.dealAlgorithm`; version 1
+ * logs were always dealt by the original shuffle (deal algorithm 1).
+ */
+export const REPLAY_FORMAT_VERSION = 2;
+
+const PILE_CODES: Record<PileType, string> = {
+  stock: 's',
+  waste: 'w',
+  foundation: 'f',
+  tableau: 't',
+  cell: 'c',
+};
+
+const CODE_PILES: Record<string, PileType> = {
+  s: 'stock',
+  w: 'waste',
+  f: 'foundation',
+  t: 'tableau',
+  c: 'cell',
+};
+
+const LOCATION = String.raw`[swftc]\d+\.\d+`;
+const FLIP_TOKEN = /^F(\d+)$/;
+const AUTO_MOVE_TOKEN = new RegExp(`^A(${LOCATION})$`);
+const MOVE_TOKEN = new RegExp(`^M(${LOCATION}):(${LOCATION}):(\\d+)$`);
+
+/**
+ * Encode a card location as a replay token fragment
+ */
+function encodeLocation(location: CardLocation): string {
+  return `${PILE_CODES[location.pileType]}${location.pileIndex}.${location.cardIndex}`;
+}
+
+/**
+ * Decode a card location from a replay token fragment
+ */
+function decodeLocation(code: string): CardLocation {
+  const match = /^([swftc])(\d+)\.(\d+)$/.exec(code);
+  if (!match) {
+    throw new Error(`Invalid location: ${code}`);
+  }
+  return {
+    pileType: CODE_PILES[match[1]],
+    pileIndex: Number(match[2]),
+    cardIndex: Number(match[3]),
+  };
+}
+
+/**
+ * Encode an action as a replay token
+ */
+export function encodeReplayAction(action: RecordedAction): string {
+  switch (action.type) {
+    case 'DRAW':
+      return 'D';
+    case 'RESET_STOCK':
+      return 'R';
+    case 'AUTO_COMPLETE_STEP':
+      return 'C';
+    case 'AUTO_PLAY':
+      return 'P';
+    case 'UNDO':
+      return 'U';
+    case 'FLIP_CARD':
+      return `F${action.tableauIndex}`;
+    case 'AUTO_MOVE':
+      return `A${encodeLocation(action.from)}`;
+    case 'MOVE':
+      return `M${encodeLocation(action.from)}:${encodeLocation(action.to)}:${action.cardCount}`;
+  }
+}
+
+/**
+ * Decode a replay token back into an action
+ * The whole token must match, so a malformed log is rejected rather than
+ * read as some other action.
+ */
+export function decodeReplayAction(token: string): RecordedAction {
+  switch (token) {
+    case 'D':
+      return { type: 'DRAW' };
+    case 'R':
+      return { type: 'RESET_STOCK' };
+    case 'C':
+      return { type: 'AUTO_COMPLETE_STEP' };
+    case 'P':
+      return { type: 'AUTO_PLAY' };
+    case 'U':
+      return { type: 'UNDO' };
+  }
+
+  const flip = FLIP_TOKEN.exec(token);
+  if (flip) {
+    return { type: 'FLIP_CARD', tableauIndex: Number(flip[1]) };
+  }
+  const autoMove = AUTO_MOVE_TOKEN.exec(token);
+  if (autoMove) {
+    return { type: 'AUTO_MOVE', from: decodeLocation(autoMove[1]) };
+  }
+  const move = MOVE_TOKEN.exec(token);
+  if (move) {
+    return { type: 'MOVE', from: decodeLocation(move[1]), to: decodeLocation(move[2]), cardCount: Number(move[3]) };
+  }
+
+  throw new Error(`Invalid replay token: ${token}`);
+}
+
+/**
+ * Start an empty replay log for a new deal
+ */
+export function createReplayLog(config: Partial<GameConfig>, seed: number): ReplayLog {
+  return {
+    version: REPLAY_FORMAT_VERSION,
+    seed,
+    config: { ...DEFAULT_CONFIG, ...config },
+    actions: [],
+    times: [],
+  };
+}
+
+/**
+ * Append an action to a replay log (returns a new log)
+ */
+export function recordAction(log: ReplayLog, action: RecordedAction, time = 0): ReplayLog {
+  return {
+    ...log,
+    actions: [...log.actions, encodeReplayAction(action)],
+    times: [...log.times, time],
+  };
+}
+
+/**
+ * Rebuild the replay log of a game from its history
+ * Undos are exported along with the actions they took back, so undo
+ * penalties replay too; after a jump through the history tree the log is the
+ * one that last played to the position jumped to.
+ * Returns null for unseeded games, or
+ * when the history doesn't lead back to the seed's deal (e.g. it was cleared).
+ */
+export function exportReplay(state: GameState, history: GameHistory): ReplayLog | null {
+  if (state.seed === null) {
+    return null;
+  }
+
+  const entries = history.getEntries().slice(0, history.getCurrentIndex() + 1);
+  let start = state;
+  try {
+    for (let i = entries.length - 1; i >= 0; i--) {
+      start = undoDelta(start, entries[i].delta);
+    }
+  } catch {
+    return null;
+  }
+
+  const deal = createInitialState(state.config, state.seed);
+  const piles = (s: GameState) => [s.stock, s.waste, ...s.foundations, ...s.tableau, ...s.cells];
+  const dealPiles = piles(deal);
+  const matches = piles(start).every((pile, i) =>
+    pile.cards.length === dealPiles[i].cards.length &&
+    pile.cards.every((card, j) => {
+      const dealt = dealPiles[i].cards[j];
+      return card.suit === dealt.suit && card.rank === dealt.rank && card.faceUp === dealt.faceUp;
+    })
+  );
+  if (!matches) {
+    return null;
+  }
+
+  const played = history.getPlayedActions();
+  const firstTime = played[0]?.time ?? 0;
+  return {
+    version: REPLAY_FORMAT_VERSION,
+    seed: state.seed,
+    config: state.config,
+    actions: played.map(({ action }) => encodeReplayAction(action)),
+    times: played.map(({ time }) => time - firstTime),
+  };
+}
+
+/**
+ * Get the full config a replay log was dealt with
+ */
+export function getReplayConfig(log: ReplayLog): GameConfig {
+  return {
+    ...DEFAULT_CONFIG,
+    ...(log.version < 2 && { dealAlgorithm: 1 as const }),
+    ...log.config,
+  };
+}
+
+/**
+ * Re-run a replay log from its deal
+ * Returns every position: the initial deal first, then the state after
+ * each recorded action (unchanged when an action had no effect)
+ * The game clock runs on the recorded times, so timed scores match.
+ * Throws if the log's format version or config is unsupported.
+ */
+export function replay(log: ReplayLog): GameState[] {
+  if (log.version > REPLAY_FORMAT_VERSION) {
+    throw new Error(`Replay format version ${log.version} is newer than supported version ${REPLAY_FORMAT_VERSION}`);
+  }
+  const configError = validateConfig(getReplayConfig(log));
+  if (configError) {
+    throw new Error(`Replay config is invalid: ${configError}`);
+  }
+
+  const history = new GameHistory();
+  const states: GameState[] = [createInitialState(getReplayConfig(log), log.seed)];
+
+  log.actions.forEach((token, i) => {
+    const current = states[states.length - 1];
+    const result = stepGame(current, history, decodeReplayAction(token), log.times[i]);
+    states.push(result?.success && result.state ? result.state : current);
+  });
+
+  return states;
+}
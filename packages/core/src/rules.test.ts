@@ -7,6 +7,7 @@ import {
   isValidMove,
   checkWinCondition,
   canAutoComplete,
+  findAutoPlayMove,
 } from './rules';
 import type { Pile, CardLocation } from './types';
 
@@ -157,4 +158,39 @@ describe('rules', () => {
       expect(canAutoComplete(state)).toBe(true);
     });
   });
+
+  describe('findAutoPlayMove', () => {
+    const setUp = (autoPlay: 'off' | 'safe' | 'all') => {
+      const state = createInitialState({ autoPlay }, 42);
+      state.stock.cards = [];
+      state.waste.cards = [];
+      state.tableau.forEach(t => (t.cards = []));
+      state.foundations[0].cards = [createCard('hearts', 1, true), createCard('hearts', 2, true)];
+      state.foundations[1].cards = [createCard('spades', 1, true)];
+      state.foundations[2].cards = [createCard('clubs', 1, true)];
+      // The black 2 could still take the red 3
+      state.tableau[0].cards = [createCard('hearts', 3, true)];
+      state.tableau[1].cards = [createCard('clubs', 2, true)];
+      return state;
+    };
+
+    it('promotes any card a foundation accepts in the all mode', () => {
+      expect(findAutoPlayMove(setUp('all'))!.from).toEqual({ pileType: 'tableau', pileIndex: 0, cardIndex: 0 });
+    });
+
+    it('holds back cards a lower opposite-colour card may need in the safe mode', () => {
+      const move = findAutoPlayMove(setUp('safe'))!;
+      expect(move.from).toEqual({ pileType: 'tableau', pileIndex: 1, cardIndex: 0 });
+      expect(move.to.pileIndex).toBe(2);
+    });
+
+    it('plays nothing when off or for face-down cards', () => {
+      expect(findAutoPlayMove(setUp('off'))).toBeNull();
+
+      const state = setUp('all');
+      state.tableau[0].cards[0].faceUp = false;
+      state.tableau[1].cards[0].faceUp = false;
+      expect(findAutoPlayMove(state)).toBeNull();
+    });
+  });
 });
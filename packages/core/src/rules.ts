@@ -1,8 +1,45 @@
-import type { Card, Pile, GameState, CardLocation } from './types';
+import type { Card, Pile, PileType, GameConfig, GameState, CardLocation } from './types';
 import { getCardColour } from './types';
+import { getRuleSet } from './variants';
 
 /**
- * Check if a card can be placed on a foundation pile
+ * Number of cards turned from the stock at once
+ */
+export function getDrawCount(config: GameConfig): number {
+  return config.drawCount ?? (config.drawMode === 'draw-three' ? 3 : 1);
+}
+
+/**
+ * Times the waste can be turned back into the stock (null for unlimited)
+ */
+export function getPassLimit(config: GameConfig): number | null {
+  return config.passLimit ?? (config.unlimitedPasses ? null : 3);
+}
+
+/**
+ * Check if the waste can be turned back into the stock now
+ */
+export function canResetStock(state: GameState): boolean {
+  const limit = getPassLimit(state.config);
+  return state.waste.cards.length > 0 && (limit === null || state.stockPasses < limit);
+}
+
+/**
+ * Undos the player has left this game (null for unlimited)
+ */
+export function getUndosLeft(state: GameState): number | null {
+  switch (state.config.undoMode) {
+    case 'disabled':
+      return 0;
+    case 'limited':
+      return Math.max(0, state.config.undoLimit - state.undoCount);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Check if a card can be placed on a foundation pile (Klondike)
  * Rules:
  * - Empty foundation: only Ace
  * - Non-empty: must be same suit and one rank higher
@@ -20,7 +57,7 @@ export function canPlaceOnFoundation(card: Card, foundation: Pile): boolean {
 }
 
 /**
- * Check if a card (or stack of cards) can be placed on a tableau pile
+ * Check if a card (or stack of cards) can be placed on a tableau pile (Klondike)
  * Rules:
  * - Empty tableau: only King
  * - Non-empty: must be opposite colour and one rank lower
@@ -58,6 +95,8 @@ export function getPile(state: GameState, location: CardLocation): Pile | null {
       return state.foundations[location.pileIndex] ?? null;
     case 'tableau':
       return state.tableau[location.pileIndex] ?? null;
+    case 'cell':
+      return state.cells[location.pileIndex] ?? null;
     default:
       return null;
   }
@@ -73,7 +112,7 @@ export function getCardAt(state: GameState, location: CardLocation): Card | null
 }
 
 /**
- * Check if cards from a given index can be moved (they must all be face up)
+ * Check if cards from a given index can be moved (Klondike: they must all be face up)
  */
 export function canPickUpCards(pile: Pile, fromIndex: number): boolean {
   // Can't pick up from stock
@@ -86,8 +125,8 @@ export function canPickUpCards(pile: Pile, fromIndex: number): boolean {
     return fromIndex === pile.cards.length - 1;
   }
 
-  // From foundation, can only pick the top card
-  if (pile.type === 'foundation') {
+  // From foundation or a free cell, can only pick the top card
+  if (pile.type === 'foundation' || pile.type === 'cell') {
     return fromIndex === pile.cards.length - 1;
   }
 
@@ -102,7 +141,17 @@ export function canPickUpCards(pile: Pile, fromIndex: number): boolean {
 }
 
 /**
- * Validate a move between two locations
+ * Whether a tableau pile is overlapped by a pile that still has cards
+ * (only in grid layouts such as Pyramid and TriPeaks)
+ */
+export function isCovered(state: GameState, tableauIndex: number): boolean {
+  const grid = getRuleSet(state.config.variant).layout(state.config).grid;
+  const slot = grid?.[tableauIndex];
+  return slot ? slot.coveredBy.some(i => state.tableau[i].cards.length > 0) : false;
+}
+
+/**
+ * Validate a move between two locations under the state's rule set
  */
 export function isValidMove(
   state: GameState,
@@ -117,8 +166,10 @@ export function isValidMove(
     return false;
   }
 
+  const rules = getRuleSet(state.config.variant);
+
   // Check we can pick up the cards
-  if (!canPickUpCards(sourcePile, from.cardIndex)) {
+  if (!rules.canPickUpCards(sourcePile, from.cardIndex, state)) {
     return false;
   }
 
@@ -139,18 +190,28 @@ export function isValidMove(
     return false;
   }
 
+  // Limit on stack size (e.g. FreeCell supermoves)
+  if (rules.maxMovableCards && cardCount > rules.maxMovableCards(state, to)) {
+    return false;
+  }
+
+  // Free cells hold a single card
+  if (destPile.type === 'cell') {
+    return cardCount === 1 && destPile.cards.length === 0;
+  }
+
   // Foundation rules
   if (destPile.type === 'foundation') {
     // Can only move single cards to foundation
     if (cardCount !== 1) {
       return false;
     }
-    return canPlaceOnFoundation(movingCard, destPile);
+    return rules.canPlaceOnFoundation(movingCard, destPile, state);
   }
 
   // Tableau rules
   if (destPile.type === 'tableau') {
-    return canPlaceOnTableau(movingCard, destPile);
+    return rules.canPlaceOnTableau(movingCard, destPile, state);
   }
 
   return false;
@@ -169,18 +230,24 @@ export function findValidMoves(
   const cardCount = sourcePile.cards.length - from.cardIndex;
   const validDestinations: CardLocation[] = [];
 
-  // Check foundations (single cards only)
+  // Check foundations and free cells (single cards only)
   if (cardCount === 1) {
-    for (let i = 0; i < 4; i++) {
+    for (let i = 0; i < state.foundations.length; i++) {
       const to: CardLocation = { pileType: 'foundation', pileIndex: i, cardIndex: state.foundations[i].cards.length };
       if (isValidMove(state, from, to, 1)) {
         validDestinations.push(to);
       }
     }
+    for (let i = 0; i < state.cells.length; i++) {
+      const to: CardLocation = { pileType: 'cell', pileIndex: i, cardIndex: state.cells[i].cards.length };
+      if (isValidMove(state, from, to, 1)) {
+        validDestinations.push(to);
+      }
+    }
   }
 
   // Check tableaus
-  for (let i = 0; i < 7; i++) {
+  for (let i = 0; i < state.tableau.length; i++) {
     const to: CardLocation = { pileType: 'tableau', pileIndex: i, cardIndex: state.tableau[i].cards.length };
     if (isValidMove(state, from, to, cardCount)) {
       validDestinations.push(to);
@@ -191,66 +258,10 @@ export function findValidMoves(
 }
 
 /**
- * Check if the game is won (all cards on foundations)
+ * Check if the game is won under the state's rule set
  */
 export function checkWinCondition(state: GameState): boolean {
-  const totalOnFoundations = state.foundations.reduce(
-    (sum, foundation) => sum + foundation.cards.length,
-    0
-  );
-  return totalOnFoundations === 52;
-}
-
-/**
- * Check if there are any valid moves remaining
- */
-export function hasValidMoves(state: GameState): boolean {
-  // Check waste pile
-  if (state.waste.cards.length > 0) {
-    const wasteTop: CardLocation = {
-      pileType: 'waste',
-      pileIndex: 0,
-      cardIndex: state.waste.cards.length - 1,
-    };
-    if (findValidMoves(state, wasteTop).length > 0) {
-      return true;
-    }
-  }
-
-  // Check tableau piles
-  for (let i = 0; i < 7; i++) {
-    const tableau = state.tableau[i];
-    for (let j = 0; j < tableau.cards.length; j++) {
-      if (tableau.cards[j].faceUp) {
-        const location: CardLocation = {
-          pileType: 'tableau',
-          pileIndex: i,
-          cardIndex: j,
-        };
-        if (findValidMoves(state, location).length > 0) {
-          return true;
-        }
-      }
-    }
-  }
-
-  // Check if stock can be drawn or reset
-  if (state.stock.cards.length > 0) {
-    return true;
-  }
-
-  // Check if stock can be reset (if there are cards in waste)
-  if (state.waste.cards.length > 0) {
-    if (state.config.unlimitedPasses) {
-      return true;
-    }
-    // Vegas mode typically allows 3 passes
-    if (state.config.scoringMode === 'vegas' && state.stockPasses < 3) {
-      return true;
-    }
-  }
-
-  return false;
+  return getRuleSet(state.config.variant).checkWinCondition(state);
 }
 
 /**
@@ -258,6 +269,11 @@ export function hasValidMoves(state: GameState): boolean {
  * Auto-complete is available when all cards are face up
  */
 export function canAutoComplete(state: GameState): boolean {
+  const rules = getRuleSet(state.config.variant);
+  if (rules.canAutoComplete) {
+    return rules.canAutoComplete(state);
+  }
+
   // All tableau cards must be face up
   for (const tableau of state.tableau) {
     for (const card of tableau.cards) {
@@ -281,26 +297,30 @@ export function canAutoComplete(state: GameState): boolean {
 }
 
 /**
- * Find the best foundation move for auto-complete
- * Returns null if no move is available
+ * Find the first top card of the given piles that a foundation accepts
  */
-export function findAutoCompleteMove(state: GameState): { from: CardLocation; to: CardLocation } | null {
-  // Check each tableau pile from left to right
-  for (let i = 0; i < 7; i++) {
-    const tableau = state.tableau[i];
-    if (tableau.cards.length === 0) continue;
+function findFoundationMove(
+  state: GameState,
+  sources: Array<{ pile: Pile; pileType: PileType; pileIndex: number }>,
+  accept: (card: Card) => boolean = () => true
+): { from: CardLocation; to: CardLocation } | null {
+  const rules = getRuleSet(state.config.variant);
 
-    const topCard = tableau.cards.at(-1)!;
+  for (const { pile, pileType, pileIndex } of sources) {
+    if (pile.cards.length === 0) continue;
+
+    const topCard = pile.cards.at(-1)!;
+    if (!accept(topCard)) continue;
     const from: CardLocation = {
-      pileType: 'tableau',
-      pileIndex: i,
-      cardIndex: tableau.cards.length - 1,
+      pileType,
+      pileIndex,
+      cardIndex: pile.cards.length - 1,
     };
 
     // Find a foundation that can accept this card
-    for (let j = 0; j < 4; j++) {
+    for (let j = 0; j < state.foundations.length; j++) {
       const foundation = state.foundations[j];
-      if (canPlaceOnFoundation(topCard, foundation)) {
+      if (rules.canPlaceOnFoundation(topCard, foundation, state)) {
         return {
           from,
           to: { pileType: 'foundation', pileIndex: j, cardIndex: foundation.cards.length },
@@ -311,3 +331,50 @@ export function findAutoCompleteMove(state: GameState): { from: CardLocation; to
 
   return null;
 }
+
+/**
+ * Find the best foundation move for auto-complete
+ * Returns null if no move is available
+ */
+export function findAutoCompleteMove(state: GameState): { from: CardLocation; to: CardLocation } | null {
+  // Check each tableau pile from left to right, then the free cells
+  return findFoundationMove(state, [
+    ...state.tableau.map((pile, pileIndex) => ({ pile, pileType: 'tableau' as const, pileIndex })),
+    ...state.cells.map((pile, pileIndex) => ({ pile, pileType: 'cell' as const, pileIndex })),
+  ]);
+}
+
+/**
+ * Check if a card can go to a foundation without being missed in the tableau:
+ * every lower card of the opposite colour (which could still be built on it)
+ * is already on a foundation
+ */
+export function isSafeToPlay(state: GameState, card: Card): boolean {
+  const colour = getCardColour(card);
+  const piles = [state.stock, state.waste, ...state.tableau, ...state.cells];
+  return piles.every(pile =>
+    pile.cards.every(other => other.rank !== card.rank - 1 || getCardColour(other) === colour)
+  );
+}
+
+/**
+ * Find the next card the autoPlay option promotes to a foundation: the waste
+ * card, then the tableau tops from left to right, then the free cells
+ * Returns null if autoPlay is off or no card qualifies.
+ */
+export function findAutoPlayMove(state: GameState): { from: CardLocation; to: CardLocation } | null {
+  const { autoPlay } = state.config;
+  if (autoPlay === 'off' || getRuleSet(state.config.variant).autoPlay === false) {
+    return null;
+  }
+
+  return findFoundationMove(
+    state,
+    [
+      { pile: state.waste, pileType: 'waste', pileIndex: 0 },
+      ...state.tableau.map((pile, pileIndex) => ({ pile, pileType: 'tableau' as const, pileIndex })),
+      ...state.cells.map((pile, pileIndex) => ({ pile, pileType: 'cell' as const, pileIndex })),
+    ],
+    card => card.faceUp && (autoPlay === 'all' || isSafeToPlay(state, card))
+  );
+}
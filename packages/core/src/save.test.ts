@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest';
+import { createInitialState, drawFromStock, stepGame, goToHistoryNode, GameHistory } from './game';
+import { undoDelta } from './delta';
+import { serializeGame, deserializeGame, SAVE_FORMAT_VERSION } from './save';
+import type { Move } from './types';
+
+const drawMove: Move = {
+  from: { pileType: 'stock', pileIndex: 0, cardIndex: 23 },
+  to: { pileType: 'waste', pileIndex: 0, cardIndex: 0 },
+  cardCount: 1,
+  flippedCard: false,
+  scoreChange: 0,
+};
+
+describe('save', () => {
+  it('round-trips a game state', () => {
+    const state = createInitialState({ drawMode: 'draw-three', scoringMode: 'vegas' }, 42);
+    const loaded = deserializeGame(serializeGame(state));
+
+    expect(loaded.success).toBe(true);
+    expect(loaded.state).toEqual(state);
+  });
+
+  it('round-trips two-deck games', () => {
+    const state = createInitialState({ variant: 'spider', spiderSuits: 4 }, 42);
+    const loaded = deserializeGame(serializeGame(state));
+
+    expect(loaded.success).toBe(true);
+    expect(new Set(loaded.state!.stock.cards.map(c => c.id)).size).toBe(50);
+    expect(loaded.state!.tableau.map(t => t.cards.map(c => [c.suit, c.rank, c.faceUp])))
+      .toEqual(state.tableau.map(t => t.cards.map(c => [c.suit, c.rank, c.faceUp])));
+  });
+
+  it('writes the schema version, seed and card codes', () => {
+    const state = createInitialState({}, 42);
+    const saved = JSON.parse(serializeGame(state));
+
+    expect(saved.version).toBe(SAVE_FORMAT_VERSION);
+    expect(saved.seed).toBe(42);
+    expect(saved.position.tableau[0]).toHaveLength(1);
+    expect(saved.position.tableau[0][0]).toMatch(/^[HDCS]\d+$/);
+    expect(saved.position.stock.every((code: string) => code === code.toLowerCase())).toBe(true);
+  });
+
+  it('round-trips the undo stack', () => {
+    const state1 = createInitialState({}, 42);
+    const history = new GameHistory();
+    const state2 = stepGame(state1, history, { type: 'DRAW' }, 1000)!.state!;
+    const state3 = stepGame(state2, history, { type: 'DRAW' }, 2000)!.state!;
+    stepGame(state3, history, { type: 'UNDO' }, 3000);
+
+    const loaded = deserializeGame(serializeGame(state2, history));
+    expect(loaded.success).toBe(true);
+    expect(loaded.history!.getEntries()).toHaveLength(2);
+    expect(loaded.history!.canRedo()).toBe(true);
+
+    const undone = undoDelta(loaded.state!, loaded.history!.undo()!.delta);
+    expect(undone.stock).toEqual(state1.stock);
+    expect(undone.startTime).toBeNull();
+    expect(loaded.history!.canUndo()).toBe(false);
+  });
+
+  it('keeps every branch of the history tree', () => {
+    const history = new GameHistory();
+    let state = createInitialState({}, 42);
+    state.tableau[0].cards[0].faceUp = false;
+    for (const [i, action] of ([{ type: 'DRAW' }, { type: 'UNDO' }, { type: 'FLIP_CARD', tableauIndex: 0 }] as const).entries()) {
+      state = stepGame(state, history, action, i * 1000)!.state!;
+    }
+
+    const loaded = deserializeGame(serializeGame(state, history));
+    expect(loaded.success).toBe(true);
+    expect(loaded.history!.getNodes().map(node => [node.parentId, node.children])).toEqual([
+      [null, [1, 2]],
+      [0, []],
+      [0, []],
+    ]);
+    expect(loaded.history!.getCurrentNodeId()).toBe(2);
+    expect(loaded.history!.getPlayedActions().map(({ action }) => action.type)).toEqual(['DRAW', 'UNDO', 'FLIP_CARD']);
+
+    const drawn = goToHistoryNode(loaded.state!, loaded.history!, 1)!;
+    expect(drawn.waste.cards).toHaveLength(1);
+    expect(drawn.tableau[0].cards[0].faceUp).toBe(false);
+
+    const saved = JSON.parse(serializeGame(state, history));
+    saved.history.parents = [0, 2];
+    expect(deserializeGame(JSON.stringify(saved)).error).toBe('History tree is malformed');
+  });
+
+  it('converts a version 3 line of play to a history tree', () => {
+    const history = new GameHistory();
+    const state1 = createInitialState({}, 42);
+    const state2 = stepGame(state1, history, { type: 'DRAW' }, 1000)!.state!;
+    const state3 = stepGame(state2, history, { type: 'DRAW' }, 2000)!.state!;
+    stepGame(state3, history, { type: 'UNDO' }, 3000);
+    const saved = JSON.parse(serializeGame(state2, history));
+    saved.version = 3;
+    saved.history = { entries: saved.history.entries, currentIndex: 0 };
+
+    const loaded = deserializeGame(JSON.stringify(saved));
+    expect(loaded.success).toBe(true);
+    expect(loaded.history!.getCurrentNodeId()).toBe(1);
+    expect(loaded.history!.getRedoActions()).toEqual([{ type: 'DRAW' }]);
+    expect(loaded.history!.getPlayedActions().map(({ action }) => action)).toEqual([{ type: 'DRAW' }]);
+  });
+
+  it('rejects history that does not lead to the position', () => {
+    const history = new GameHistory();
+    const state = stepGame(createInitialState({}, 42), history, { type: 'DRAW' }, 1000)!.state!;
+
+    const loaded = deserializeGame(serializeGame(createInitialState({}, 42), history));
+    expect(loaded.success).toBe(false);
+    expect(loaded.error).toContain('History does not match');
+    expect(deserializeGame(serializeGame(state, history)).success).toBe(true);
+  });
+
+  it('converts version 2 undo snapshots to deltas', () => {
+    const state1 = createInitialState({}, 42);
+    const state2 = drawFromStock(state1);
+    const saved = JSON.parse(serializeGame(state2));
+    saved.version = 2;
+    saved.history = {
+      entries: [{ move: drawMove, previousState: JSON.parse(serializeGame(state1)).position }],
+      currentIndex: 0,
+    };
+
+    const loaded = deserializeGame(JSON.stringify(saved));
+    expect(loaded.success).toBe(true);
+
+    const entry = loaded.history!.undo()!;
+    expect(entry.action).toEqual({ type: 'DRAW' });
+    expect(undoDelta(loaded.state!, entry.delta).stock).toEqual(state1.stock);
+  });
+
+  it('pauses the clock while the game is saved', () => {
+    const state = createInitialState({}, 42);
+    state.startTime = 1000;
+    const saved = JSON.parse(serializeGame(state));
+    saved.savedAt = Date.now() - 60000;
+
+    const loaded = deserializeGame(JSON.stringify(saved));
+    expect(loaded.state!.startTime).toBeGreaterThanOrEqual(61000);
+  });
+
+  it('rejects saves from a newer version', () => {
+    const saved = JSON.parse(serializeGame(createInitialState({}, 42)));
+    saved.version = SAVE_FORMAT_VERSION + 1;
+
+    const loaded = deserializeGame(JSON.stringify(saved));
+    expect(loaded.success).toBe(false);
+    expect(loaded.error).toContain('newer');
+  });
+
+  it('deals version 1 saves with the original shuffle', () => {
+    const saved = JSON.parse(serializeGame(createInitialState({ dealAlgorithm: 1 }, 42)));
+    saved.version = 1;
+    delete saved.config.dealAlgorithm;
+
+    const loaded = deserializeGame(JSON.stringify(saved));
+    expect(loaded.success).toBe(true);
+    expect(loaded.state!.config.dealAlgorithm).toBe(1);
+  });
+
+  it('rejects layouts that fail validation', () => {
+    const saved = JSON.parse(serializeGame(createInitialState({}, 42)));
+    saved.position.stock.push(saved.position.stock[0]);
+
+    const loaded = deserializeGame(JSON.stringify(saved));
+    expect(loaded.success).toBe(false);
+    expect(loaded.error).toContain('Duplicate');
+  });
+
+  it('rejects malformed data', () => {
+    expect(deserializeGame('not json').success).toBe(false);
+    expect(deserializeGame('null').success).toBe(false);
+    expect(deserializeGame('{"version":1,"position":{"tableau":[]}}').success).toBe(false);
+  });
+});
@@ -0,0 +1,534 @@
+import type {
+  Card,
+  Pile,
+  PileType,
+  Suit,
+  Rank,
+  GameState,
+  GameConfig,
+  GameCounters,
+  Move,
+  PileChange,
+  RecordedAction,
+  HistoryEntry,
+  HistoryNode,
+  SavedPosition,
+  SavedHistoryEntry,
+  SavedGame,
+  LoadGameResult,
+} from './types';
+import { createCard } from './deck';
+import { DEFAULT_CONFIG, GameHistory, validateState } from './game';
+import { undoDelta, redoDelta } from './delta';
+import { encodeReplayAction, decodeReplayAction } from './replay';
+import { getRuleSet } from './variants';
+
+/**
+ * Current save format version
+ *
+ * Format (JSON):
+ * - `version`: schema version, bumped on any incompatible change
+ * - `config`: the full GameConfig (its `dealAlgorithm` turns the seed into a deal)
+ * - `seed`: deal seed, or null for an unseeded shuffle
+ * - `savedAt`: timestamp the game was saved (used to pause the clock)
+ * - `position`: the current position (see SavedPosition)
+ * - `history`: the branching undo history: every recorded action (see
+ *   SavedHistoryEntry) with the node it was played from, the branch redo
+ *   follows from each node, the current node, and the actions (undos
+ *   included) that reached it; entries store only the piles each action
+ *   changed, so undo is unlimited
+ *
+ * Cards are written as a suit letter followed by the rank, upper case for
+ * face up and lower case for face down: "H1" is a face-up Ace of hearts,
+ * "s13" a face-down King of spades. Piles list cards bottom to top.
+ * Multi-deck games repeat codes; copies are told apart by load order.
+ * Piles in history entries are named by a letter and index: "s0" is the
+ * stock, "w0" the waste, "f1" the second foundation, "t3" the fourth
+ * tableau column and "c0" the first free cell.
+ */
+export const SAVE_FORMAT_VERSION = 4;
+
+const SUIT_CODES: Record<Suit, string> = {
+  hearts: 'H',
+  diamonds: 'D',
+  clubs: 'C',
+  spades: 'S',
+};
+
+const CODE_SUITS: Record<string, Suit> = {
+  H: 'hearts',
+  D: 'diamonds',
+  C: 'clubs',
+  S: 'spades',
+};
+
+const PILE_CODES: Record<PileType, string> = {
+  stock: 's',
+  waste: 'w',
+  foundation: 'f',
+  tableau: 't',
+  cell: 'c',
+};
+
+const CODE_PILES: Record<string, PileType> = {
+  s: 'stock',
+  w: 'waste',
+  f: 'foundation',
+  t: 'tableau',
+  c: 'cell',
+};
+
+/**
+ * Upgrades from older save versions, keyed by the version they upgrade from
+ */
+const MIGRATIONS: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {
+  // Version 1 seeds were dealt by the original shuffle
+  1: data => ({
+    ...data,
+    version: 2,
+    config: { ...(data.config as Partial<GameConfig>), dealAlgorithm: 1 },
+  }),
+  // Version 2 kept a full position before every move
+  2: data => {
+    const history = data.history as { entries?: LegacyHistoryEntry[]; currentIndex?: number } | undefined;
+    const entries = history?.entries ?? [];
+    const currentIndex = history?.currentIndex ?? entries.length - 1;
+    const converted: SavedHistoryEntry[] = [];
+
+    entries.forEach((entry, i) => {
+      // The position after the last entry is only known if it's applied
+      const after = i + 1 < entries.length
+        ? entries[i + 1].previousState
+        : currentIndex === i ? (data.position as SavedPosition) : null;
+      if (after) {
+        converted.push(convertLegacyEntry(entry, after));
+      }
+    });
+
+    return {
+      ...data,
+      version: 3,
+      history: { entries: converted, currentIndex: Math.min(currentIndex, converted.length - 1) },
+    };
+  },
+  // Version 3 kept only the current line of play
+  3: data => {
+    const history = data.history as { entries?: SavedHistoryEntry[]; currentIndex?: number } | undefined;
+    const entries = history?.entries ?? [];
+    const currentIndex = Math.min(Math.max(history?.currentIndex ?? entries.length - 1, -1), entries.length - 1);
+    const applied = entries.slice(0, currentIndex + 1);
+
+    return {
+      ...data,
+      version: 4,
+      history: {
+        entries,
+        parents: entries.map((_, i) => i),
+        redo: [...entries.map((_, i) => i + 1), null],
+        current: currentIndex + 1,
+        played: { actions: applied.map(entry => entry.action), times: applied.map(entry => entry.time) },
+      },
+    };
+  },
+};
+
+/**
+ * A version 2 history entry
+ */
+interface LegacyHistoryEntry {
+  move: Move;
+  previousState: SavedPosition;
+}
+
+/**
+ * Every pile of a saved position with its code
+ */
+function listSavedPiles(position: SavedPosition): Array<[string, string[]]> {
+  return [
+    ['s0', position.stock],
+    ['w0', position.waste],
+    ...position.foundations.map((codes, i): [string, string[]] => [`f${i}`, codes]),
+    ...position.tableau.map((codes, i): [string, string[]] => [`t${i}`, codes]),
+    ...(position.cells ?? []).map((codes, i): [string, string[]] => [`c${i}`, codes]),
+  ];
+}
+
+/**
+ * Read the counters of a saved position
+ */
+function savedCounters(position: SavedPosition): GameCounters {
+  return {
+    score: position.score,
+    moves: position.moves,
+    startTime: position.startTime,
+    endTime: position.endTime,
+    isWon: position.isWon,
+    stockPasses: position.stockPasses,
+    timeCharged: position.timeCharged ?? 0,
+  };
+}
+
+/**
+ * The action a version 2 move was recorded for
+ */
+function legacyAction(move: Move): RecordedAction {
+  if (move.from.pileType === 'stock') {
+    return { type: 'DRAW' };
+  }
+  if (move.to.pileType === 'stock') {
+    return { type: 'RESET_STOCK' };
+  }
+  if (move.flippedCard && move.cardCount === 0) {
+    return { type: 'FLIP_CARD', tableauIndex: move.from.pileIndex };
+  }
+  return { type: 'MOVE', from: move.from, to: move.to, cardCount: move.cardCount };
+}
+
+/**
+ * Turn a version 2 entry into a delta by comparing the positions around it
+ */
+function convertLegacyEntry(entry: LegacyHistoryEntry, after: SavedPosition): SavedHistoryEntry {
+  const afterPiles = new Map(listSavedPiles(after));
+  const piles: SavedHistoryEntry['piles'] = [];
+
+  for (const [pile, from] of listSavedPiles(entry.previousState)) {
+    const to = afterPiles.get(pile) ?? [];
+    let keep = 0;
+    while (keep < from.length && keep < to.length && from[keep] === to[keep]) {
+      keep++;
+    }
+    if (keep < from.length || keep < to.length) {
+      piles.push({ pile, keep, removed: from.slice(keep), added: to.slice(keep) });
+    }
+  }
+
+  return {
+    action: encodeReplayAction(legacyAction(entry.move)),
+    piles,
+    before: savedCounters(entry.previousState),
+    after: savedCounters(after),
+    scoreChange: Number(entry.move.scoreChange ?? 0),
+    time: 0,
+  };
+}
+
+/**
+ * Encode a card as its save code
+ */
+function encodeCard(card: Card): string {
+  const code = `${SUIT_CODES[card.suit]}${card.rank}`;
+  return card.faceUp ? code : code.toLowerCase();
+}
+
+/**
+ * Decode a card from its save code
+ * Repeated cards (multi-deck games) are numbered as further copies, counted
+ * in `copies` across the whole position.
+ */
+function decodeCard(code: string, copies: Map<string, number>): Card {
+  const match = /^([HDCS])(\d{1,2})$/i.exec(code);
+  const rank = match ? Number(match[2]) : 0;
+  if (!match || rank < 1 || rank > 13) {
+    throw new Error(`Invalid card code: ${code}`);
+  }
+
+  const faceUp = match[1] === match[1].toUpperCase();
+  const key = code.toUpperCase();
+  const copy = copies.get(key) ?? 0;
+  copies.set(key, copy + 1);
+  return createCard(CODE_SUITS[match[1].toUpperCase()], rank as Rank, faceUp, copy);
+}
+
+/**
+ * Decode a list of card codes
+ */
+function decodePile(codes: unknown, copies: Map<string, number>): Card[] {
+  if (!Array.isArray(codes)) {
+    throw new Error('Invalid pile');
+  }
+  return codes.map(code => decodeCard(String(code), copies));
+}
+
+/**
+ * Convert a game state to its saved form
+ */
+function savePosition(state: GameState): SavedPosition {
+  return {
+    stock: state.stock.cards.map(encodeCard),
+    waste: state.waste.cards.map(encodeCard),
+    foundations: state.foundations.map(f => f.cards.map(encodeCard)),
+    tableau: state.tableau.map(t => t.cards.map(encodeCard)),
+    ...(state.cells.length > 0 && { cells: state.cells.map(c => c.cards.map(encodeCard)) }),
+    score: state.score,
+    moves: state.moves,
+    stockPasses: state.stockPasses,
+    timeCharged: state.timeCharged,
+    undoCount: state.undoCount,
+    isWon: state.isWon,
+    startTime: state.startTime,
+    endTime: state.endTime,
+  };
+}
+
+/**
+ * Rebuild a game state from its saved form
+ */
+function loadPosition(
+  position: SavedPosition,
+  config: GameConfig,
+  seed: number | null,
+  clockOffset: number
+): GameState {
+  const layout = getRuleSet(config.variant).layout(config);
+  if (!Array.isArray(position.foundations) || position.foundations.length !== layout.foundations) {
+    throw new Error(`Expected ${layout.foundations} foundations`);
+  }
+  if (!Array.isArray(position.tableau) || position.tableau.length !== layout.tableau) {
+    throw new Error(`Expected ${layout.tableau} tableau piles`);
+  }
+  const savedCells = position.cells ?? [];
+  if (!Array.isArray(savedCells) || savedCells.length !== layout.cells) {
+    throw new Error(`Expected ${layout.cells} free cells`);
+  }
+
+  // Copies of repeated cards are numbered in the order they are read
+  const copies = new Map<string, number>();
+  const foundations = position.foundations.map((codes, i): Pile => ({
+    id: `foundation-${i}`,
+    type: 'foundation',
+    cards: decodePile(codes, copies),
+  }));
+
+  const tableau = position.tableau.map((codes, i): Pile => ({
+    id: `tableau-${i}`,
+    type: 'tableau',
+    cards: decodePile(codes, copies),
+    tableauIndex: i,
+  }));
+
+  // Shift the clock of unfinished games so time spent saved doesn't count
+  const startTime = position.startTime !== null && position.endTime === null
+    ? position.startTime + clockOffset
+    : position.startTime;
+
+  return {
+    stock: { id: 'stock', type: 'stock', cards: decodePile(position.stock, copies) },
+    waste: { id: 'waste', type: 'waste', cards: decodePile(position.waste, copies) },
+    foundations,
+    tableau,
+    cells: savedCells.map((codes, i): Pile => ({
+      id: `cell-${i}`,
+      type: 'cell',
+      cards: decodePile(codes, copies),
+    })),
+    score: Number(position.score),
+    moves: Number(position.moves),
+    startTime,
+    endTime: position.endTime,
+    isWon: Boolean(position.isWon),
+    stockPasses: Number(position.stockPasses),
+    timeCharged: Number(position.timeCharged ?? 0),
+    undoCount: Number(position.undoCount ?? 0),
+    seed,
+    config,
+  };
+}
+
+/**
+ * Convert a history entry to its saved form
+ */
+function saveEntry(entry: HistoryEntry): SavedHistoryEntry {
+  return {
+    action: encodeReplayAction(entry.action),
+    piles: entry.delta.piles.map(change => ({
+      pile: `${PILE_CODES[change.pileType]}${change.pileIndex}`,
+      keep: change.keep,
+      removed: change.removed.map(encodeCard),
+      added: change.added.map(encodeCard),
+    })),
+    before: entry.delta.before,
+    after: entry.delta.after,
+    scoreChange: entry.scoreChange,
+    time: entry.time,
+  };
+}
+
+/**
+ * Rebuild a history entry from its saved form
+ * Clock times are shifted like the position's (see loadPosition).
+ */
+function loadEntry(entry: SavedHistoryEntry, clockOffset: number): HistoryEntry {
+  // Each entry numbers its own copies; undo matches them by suit and rank
+  const copies = new Map<string, number>();
+  const piles = entry.piles.map((change): PileChange => {
+    const match = /^([swftc])(\d+)$/.exec(String(change.pile));
+    if (!match) {
+      throw new Error(`Invalid pile: ${change.pile}`);
+    }
+    return {
+      pileType: CODE_PILES[match[1]],
+      pileIndex: Number(match[2]),
+      keep: Number(change.keep),
+      removed: decodePile(change.removed, copies),
+      added: decodePile(change.added, copies),
+    };
+  });
+
+  const shift = (counters: GameCounters): GameCounters => ({
+    ...counters,
+    timeCharged: Number(counters.timeCharged ?? 0),
+    startTime: counters.startTime === null ? null : counters.startTime + clockOffset,
+    endTime: counters.endTime === null ? null : counters.endTime + clockOffset,
+  });
+
+  return {
+    action: decodeReplayAction(String(entry.action)),
+    delta: { piles, before: shift(entry.before), after: shift(entry.after) },
+    scoreChange: Number(entry.scoreChange),
+    time: Number(entry.time) + clockOffset,
+  };
+}
+
+/**
+ * Convert an undo history to its saved form
+ */
+function saveHistory(history: GameHistory): SavedGame['history'] {
+  const nodes = history.getNodes();
+  const played = history.getPlayedActions();
+  return {
+    entries: nodes.slice(1).map(node => saveEntry(node.entry!)),
+    parents: nodes.slice(1).map(node => node.parentId!),
+    redo: nodes.map(node => node.redoChild),
+    current: history.getCurrentNodeId(),
+    played: { actions: played.map(({ action }) => encodeReplayAction(action)), times: played.map(({ time }) => time) },
+  };
+}
+
+/**
+ * Rebuild an undo history from its saved form, checking the position at
+ * every node
+ * The tree is walked from the current position, which must be valid.
+ */
+function loadHistory(saved: SavedGame['history'] | undefined, state: GameState, clockOffset: number): GameHistory | string {
+  const entries = (saved?.entries ?? []).map(entry => loadEntry(entry, clockOffset));
+  const parents = saved?.parents ?? [];
+  const current = Number(saved?.current ?? 0);
+  if (parents.length !== entries.length || !parents.every((parent, i) => Number.isInteger(parent) && parent >= 0 && parent <= i)) {
+    return 'History tree is malformed';
+  }
+  if (!Number.isInteger(current) || current < 0 || current > entries.length) {
+    return 'History has no current position';
+  }
+
+  const nodes: HistoryNode[] = [{ id: 0, parentId: null, entry: null, children: [], redoChild: null, depth: 0 }];
+  entries.forEach((entry, i) => {
+    const parent = nodes[parents[i]];
+    nodes.push({ id: i + 1, parentId: parent.id, entry, children: [], redoChild: null, depth: parent.depth + 1 });
+    parent.children.push(i + 1);
+  });
+  nodes.forEach(node => {
+    const redo = saved?.redo?.[node.id] ?? null;
+    node.redoChild = redo !== null && node.children.includes(redo) ? redo : node.children.at(-1) ?? null;
+  });
+
+  // Climb to the deal, then visit every other node from the one above it
+  const positions = new Map<number, GameState>([[current, state]]);
+  for (let node = nodes[current]; node.parentId !== null; node = nodes[node.parentId]) {
+    positions.set(node.parentId, undoDelta(positions.get(node.id)!, node.entry!.delta));
+  }
+  for (const node of nodes.slice(1)) {
+    if (!positions.has(node.id)) {
+      positions.set(node.id, redoDelta(positions.get(node.parentId!)!, node.entry!.delta));
+    }
+  }
+  for (const position of positions.values()) {
+    const check = validateState(position);
+    if (!check.valid) {
+      return `Invalid history state: ${check.errors.join('; ')}`;
+    }
+  }
+
+  const played = saved?.played ?? { actions: [], times: [] };
+  const history = new GameHistory();
+  history.restore(nodes, current, played.actions.map((token, i) => ({
+    action: decodeReplayAction(String(token)),
+    time: Number(played.times[i] ?? 0) + clockOffset,
+  })));
+  return history;
+}
+
+/**
+ * Serialize a game (and optionally its undo history) to a JSON string
+ */
+export function serializeGame(state: GameState, history?: GameHistory): string {
+  const saved: SavedGame = {
+    version: SAVE_FORMAT_VERSION,
+    config: state.config,
+    seed: state.seed,
+    savedAt: Date.now(),
+    position: savePosition(state),
+    history: saveHistory(history ?? new GameHistory()),
+  };
+
+  return JSON.stringify(saved);
+}
+
+/**
+ * Bring saved data from an older version up to the current format
+ */
+function migrate(data: Record<string, unknown>): SavedGame {
+  let current = data;
+  let version = Number(current.version);
+
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error('Missing save format version');
+  }
+  if (version > SAVE_FORMAT_VERSION) {
+    throw new Error(`Save format version ${version} is newer than supported version ${SAVE_FORMAT_VERSION}`);
+  }
+
+  while (version < SAVE_FORMAT_VERSION) {
+    const upgrade = MIGRATIONS[version];
+    if (!upgrade) {
+      throw new Error(`No migration from save format version ${version}`);
+    }
+    current = upgrade(current);
+    version = Number(current.version);
+  }
+
+  return current as unknown as SavedGame;
+}
+
+/**
+ * Restore a game saved with serializeGame
+ * Every position is checked with validateState before it is accepted
+ */
+export function deserializeGame(json: string): LoadGameResult {
+  try {
+    const data: unknown = JSON.parse(json);
+    if (typeof data !== 'object' || data === null) {
+      return { success: false, error: 'Save data is not an object' };
+    }
+
+    const saved = migrate(data as Record<string, unknown>);
+    const config: GameConfig = { ...DEFAULT_CONFIG, ...saved.config };
+    const clockOffset = Math.max(0, Date.now() - Number(saved.savedAt ?? Date.now()));
+
+    const state = loadPosition(saved.position, config, saved.seed ?? null, clockOffset);
+    const { valid, errors } = validateState(state);
+    if (!valid) {
+      return { success: false, error: `Invalid game state: ${errors.join('; ')}` };
+    }
+
+    // History clocks only move with the position's (finished games stay put)
+    const historyOffset = state.startTime !== null && state.endTime === null ? clockOffset : 0;
+    const history = loadHistory(saved.history, state, historyOffset);
+    if (typeof history === 'string') {
+      return { success: false, error: history };
+    }
+
+    return { success: true, state, history };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
@@ -1,145 +1,265 @@
-import type { ScoringMode, Move, GameState } from './types';
+import type { ScoringMode, ScoringProfile, GameConfig, Move, GameState, Variant } from './types';
 
 /**
  * Standard scoring values (Windows 3.1 style)
  */
+export const STANDARD_PROFILE: ScoringProfile = {
+  initialScore: 0,
+  wasteToTableau: 5,
+  wasteToFoundation: 10,
+  tableauToFoundation: 10,
+  foundationToTableau: -15,
+  revealCard: 5,
+  // Only draw-three is penalised
+  recycleWaste: { 'draw-one': 0, 'draw-three': -20 },
+  move: 0,
+  completeRun: 0,
+  undo: 0,
+  allowNegative: false,
+  timePenalty: -2,
+  timeBonus: true,
+};
+
+/**
+ * Vegas scoring values: $52 to play, $5 back for each card to a foundation
+ */
+export const VEGAS_PROFILE: ScoringProfile = {
+  initialScore: -52,
+  wasteToTableau: 0,
+  wasteToFoundation: 5,
+  tableauToFoundation: 5,
+  foundationToTableau: -5,
+  revealCard: 0,
+  recycleWaste: { 'draw-one': 0, 'draw-three': 0 },
+  move: 0,
+  completeRun: 0,
+  undo: 0,
+  allowNegative: true,
+  timePenalty: 0,
+  timeBonus: false,
+};
+
+/**
+ * Spider scoring values (Windows style)
+ */
+export const SPIDER_PROFILE: ScoringProfile = {
+  initialScore: 500,
+  wasteToTableau: 0,
+  wasteToFoundation: 0,
+  tableauToFoundation: 0,
+  foundationToTableau: 0,
+  revealCard: 0,
+  recycleWaste: { 'draw-one': 0, 'draw-three': 0 },
+  move: -1,
+  completeRun: 100,
+  undo: 0,
+  allowNegative: true,
+  timePenalty: 0,
+  timeBonus: false,
+};
+
+/**
+ * No scoring at all
+ */
+export const NO_SCORING_PROFILE: ScoringProfile = {
+  ...SPIDER_PROFILE,
+  initialScore: 0,
+  move: 0,
+  completeRun: 0,
+};
+
+/**
+ * Standard scoring values (Windows 3.1 style), in their original shape
+ * @deprecated Use STANDARD_PROFILE
+ */
 export const STANDARD_SCORES = {
   /** Waste to tableau */
-  wasteToTableau: 5,
+  wasteToTableau: STANDARD_PROFILE.wasteToTableau,
   /** Waste to foundation */
-  wasteToFoundation: 10,
+  wasteToFoundation: STANDARD_PROFILE.wasteToFoundation,
   /** Tableau to foundation */
-  tableauToFoundation: 10,
+  tableauToFoundation: STANDARD_PROFILE.tableauToFoundation,
   /** Turn over tableau card */
-  turnOverTableauCard: 5,
+  turnOverTableauCard: STANDARD_PROFILE.revealCard,
   /** Foundation back to tableau (penalty) */
-  foundationToTableau: -15,
+  foundationToTableau: STANDARD_PROFILE.foundationToTableau,
   /** Recycle waste to stock (draw-three only, per pass) */
-  recycleWaste: -20,
+  recycleWaste: STANDARD_PROFILE.recycleWaste['draw-three'],
 };
 
 /**
- * Vegas scoring values
+ * Vegas scoring values, in their original shape
+ * @deprecated Use VEGAS_PROFILE
  */
 export const VEGAS_SCORES = {
   /** Initial cost to play */
-  initialCost: -52,
+  initialCost: VEGAS_PROFILE.initialScore,
   /** Each card to foundation */
-  cardToFoundation: 5,
+  cardToFoundation: VEGAS_PROFILE.tableauToFoundation,
   /** Foundation back to tableau */
-  foundationToTableau: -5,
+  foundationToTableau: VEGAS_PROFILE.foundationToTableau,
 };
 
 /**
- * Calculate score for a move in standard mode
+ * Get the point table a game is scored with
+ * A custom scoringProfile wins; otherwise it follows the scoring mode.
  */
-export function calculateStandardScore(
-  move: Move,
-  _state: GameState
-): number {
-  let score = 0;
+export function getScoringProfile(
+  config: Pick<GameConfig, 'scoringProfile' | 'scoringMode' | 'variant'>
+): ScoringProfile {
+  if (config.scoringProfile) {
+    return config.scoringProfile;
+  }
+
+  switch (config.scoringMode) {
+    case 'standard':
+      return config.variant === 'spider' ? SPIDER_PROFILE : STANDARD_PROFILE;
+    case 'vegas':
+      return VEGAS_PROFILE;
+    case 'none':
+    default:
+      return NO_SCORING_PROFILE;
+  }
+}
+
+/**
+ * Calculate score for a move with a point table
+ */
+export function scoreMove(move: Move, profile: ScoringProfile): number {
+  let score = profile.move + profile.completeRun * (move.completedRuns ?? 0);
 
   const { from, to, flippedCard } = move;
 
   // Waste to tableau
   if (from.pileType === 'waste' && to.pileType === 'tableau') {
-    score += STANDARD_SCORES.wasteToTableau;
+    score += profile.wasteToTableau;
   }
 
   // Waste to foundation
   if (from.pileType === 'waste' && to.pileType === 'foundation') {
-    score += STANDARD_SCORES.wasteToFoundation;
+    score += profile.wasteToFoundation;
   }
 
-  // Tableau to foundation
-  if (from.pileType === 'tableau' && to.pileType === 'foundation') {
-    score += STANDARD_SCORES.tableauToFoundation;
+  // Tableau (or free cell) to foundation
+  if ((from.pileType === 'tableau' || from.pileType === 'cell') && to.pileType === 'foundation') {
+    score += profile.tableauToFoundation;
   }
 
   // Foundation to tableau (penalty)
   if (from.pileType === 'foundation' && to.pileType === 'tableau') {
-    score += STANDARD_SCORES.foundationToTableau;
+    score += profile.foundationToTableau;
   }
 
   // Bonus for turning over a tableau card
   if (flippedCard) {
-    score += STANDARD_SCORES.turnOverTableauCard;
+    score += profile.revealCard;
   }
 
   return score;
 }
 
 /**
- * Calculate score for a move in Vegas mode
+ * Calculate score for a move in standard mode
+ * @deprecated Use scoreMove(move, STANDARD_PROFILE)
  */
-export function calculateVegasScore(
-  move: Move,
-  _state: GameState
-): number {
-  let score = 0;
-
-  const { from, to } = move;
-
-  // Any card to foundation
-  if (to.pileType === 'foundation') {
-    score += VEGAS_SCORES.cardToFoundation;
-  }
+export function calculateStandardScore(move: Move, _state?: GameState): number {
+  return scoreMove(move, STANDARD_PROFILE);
+}
 
-  // Foundation to tableau (penalty)
-  if (from.pileType === 'foundation' && to.pileType === 'tableau') {
-    score += VEGAS_SCORES.foundationToTableau;
-  }
+/**
+ * Calculate score for a move in Vegas mode
+ * @deprecated Use scoreMove(move, VEGAS_PROFILE)
+ */
+export function calculateVegasScore(move: Move, _state?: GameState): number {
+  return scoreMove(move, VEGAS_PROFILE);
+}
 
-  return score;
+/**
+ * Calculate score for a move in standard Spider
+ * @deprecated Use scoreMove(move, SPIDER_PROFILE)
+ */
+export function calculateSpiderScore(move: Move): number {
+  return scoreMove(move, SPIDER_PROFILE);
 }
 
 /**
- * Calculate score for a move based on the scoring mode
+ * Calculate score for a move in the game's scoring profile
  */
 export function calculateMoveScore(
   move: Move,
   state: GameState
 ): number {
-  switch (state.config.scoringMode) {
-    case 'standard':
-      return calculateStandardScore(move, state);
-    case 'vegas':
-      return calculateVegasScore(move, state);
-    case 'none':
-      return 0;
-    default:
-      return 0;
-  }
+  return scoreMove(move, getScoringProfile(state.config));
 }
 
 /**
  * Calculate the initial score for a new game
  */
-export function getInitialScore(scoringMode: ScoringMode): number {
-  switch (scoringMode) {
-    case 'vegas':
-      return VEGAS_SCORES.initialCost;
-    case 'standard':
-    case 'none':
-    default:
-      return 0;
-  }
+export function getInitialScore(config: GameConfig): number;
+/** @deprecated Pass the game config, so a custom scoringProfile is honoured */
+export function getInitialScore(scoringMode: ScoringMode, variant?: Variant): number;
+export function getInitialScore(config: GameConfig | ScoringMode, variant: Variant = 'klondike'): number {
+  return getScoringProfile(
+    typeof config === 'string' ? { scoringMode: config, variant, scoringProfile: null } : config
+  ).initialScore;
 }
 
 /**
  * Calculate penalty for recycling the waste pile
  */
 export function getRecycleWastePenalty(state: GameState): number {
-  if (state.config.scoringMode !== 'standard') {
-    return 0;
+  return getScoringProfile(state.config).recycleWaste[state.config.drawMode];
+}
+
+/**
+ * Calculate penalty for undoing a move (only charged in the penalty undo mode)
+ */
+export function getUndoPenalty(state: GameState): number {
+  return state.config.undoMode === 'penalty' ? getScoringProfile(state.config).undo : 0;
+}
+
+/**
+ * Apply a recycle or undo penalty to a score
+ * Unless the profile allows negative scores, a penalty stops at zero (but
+ * never raises a score that is already below it).
+ */
+export function applyPenalty(score: number, penalty: number, config: GameConfig): number {
+  if (penalty === 0 || getScoringProfile(config).allowNegative) {
+    return score + penalty;
   }
+  return Math.max(Math.min(score, 0), score + penalty);
+}
+
+/**
+ * Seconds of play charged the time penalty at once
+ */
+export const TIME_PENALTY_INTERVAL = 10;
 
-  // Only penalise in draw-three mode
-  if (state.config.drawMode !== 'draw-three') {
-    return 0;
+/**
+ * Charge a timed game's penalty for play up to an elapsed time
+ * Returns the new score and how many seconds have now been charged for.
+ */
+export function chargeTimePenalty(
+  score: number,
+  timeCharged: number,
+  elapsedSeconds: number,
+  config: GameConfig
+): { score: number; timeCharged: number } {
+  const due = Math.floor(elapsedSeconds / TIME_PENALTY_INTERVAL) * TIME_PENALTY_INTERVAL;
+  if (!config.timedGame || due <= timeCharged) {
+    return { score, timeCharged };
   }
 
-  return STANDARD_SCORES.recycleWaste;
+  const penalty = getScoringProfile(config).timePenalty * (due - timeCharged) / TIME_PENALTY_INTERVAL;
+  return { score: applyPenalty(score, penalty, config), timeCharged: due };
+}
+
+/**
+ * Calculate the bonus for winning after a number of seconds
+ * Only profiles with a time bonus (standard) get one.
+ */
+export function getTimeBonus(config: GameConfig, elapsedSeconds: number): number {
+  return getScoringProfile(config).timeBonus ? calculateTimeBonus(elapsedSeconds) : 0;
 }
 
 /**
@@ -157,15 +277,19 @@ export function calculateTimeBonus(elapsedSeconds: number): number {
 
 /**
  * Format score for display
+ * In cumulative Vegas, pass the balance carried over from earlier games to
+ * show the running balance as Windows did.
  */
-export function formatScore(score: number, scoringMode: ScoringMode): string {
+export function formatScore(score: number, scoringMode: ScoringMode, carriedOver = 0): string {
   switch (scoringMode) {
-    case 'vegas':
+    case 'vegas': {
       // Vegas shows as currency
-      if (score >= 0) {
-        return `$${score}`;
+      const balance = score + carriedOver;
+      if (balance >= 0) {
+        return `$${balance}`;
       }
-      return `-$${Math.abs(score)}`;
+      return `-$${Math.abs(balance)}`;
+    }
     case 'standard':
     case 'none':
     default:
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { createCard, SUITS } from './deck';
+import { createInitialState, applyAction, validateState } from './game';
+import { solve, createWinnableDeal } from './solver';
+import type { GameState, Rank } from './types';
+
+/**
+ * Foundations holding Ace up to the given rank for every suit
+ */
+function foundationsUpTo(state: GameState, rank: number): void {
+  SUITS.forEach((suit, i) => {
+    state.foundations[i].cards = Array.from({ length: rank }, (_, r) =>
+      createCard(suit, (r + 1) as Rank, true)
+    );
+  });
+}
+
+describe('solver', () => {
+  it('finds a winning line for a winnable deal', () => {
+    const state = createInitialState({}, 3);
+    const result = solve(state);
+
+    expect(result.status).toBe('winnable');
+    expect(result.solution).toBeDefined();
+
+    // Replaying the solution must win the game
+    let current = state;
+    for (const action of result.solution!) {
+      const step = applyAction(current, action);
+      expect(step.success).toBe(true);
+      current = step.state!;
+    }
+    expect(current.isWon).toBe(true);
+  });
+
+  it('solves a position that only needs foundation moves', () => {
+    const state = createInitialState({}, 42);
+    foundationsUpTo(state, 12);
+    state.stock.cards = [];
+    state.waste.cards = [createCard('hearts', 13, true)];
+    state.tableau.forEach(t => (t.cards = []));
+    state.tableau[0].cards = [
+      createCard('spades', 13, false),
+      createCard('diamonds', 13, true),
+    ];
+    state.tableau[1].cards = [createCard('clubs', 13, true)];
+    expect(validateState(state).valid).toBe(true);
+
+    const result = solve(state);
+    expect(result.status).toBe('winnable');
+    expect(result.solution).toContainEqual({ type: 'FLIP_CARD', tableauIndex: 0 });
+  });
+
+  it('proves a blocked position unwinnable', () => {
+    const state = createInitialState({}, 42);
+    foundationsUpTo(state, 9);
+    state.stock.cards = [];
+    state.waste.cards = [];
+    state.tableau[0].cards = [createCard('hearts', 10), createCard('diamonds', 10), createCard('spades', 13, true)];
+    state.tableau[1].cards = [createCard('spades', 10), createCard('hearts', 13, true)];
+    state.tableau[2].cards = [createCard('clubs', 10), createCard('diamonds', 13, true)];
+    state.tableau[3].cards = [createCard('clubs', 11), createCard('clubs', 13, true)];
+    state.tableau[4].cards = [createCard('hearts', 12), createCard('hearts', 11, true)];
+    state.tableau[5].cards = [createCard('diamonds', 12), createCard('spades', 12), createCard('diamonds', 11, true)];
+    state.tableau[6].cards = [createCard('clubs', 12), createCard('spades', 11, true)];
+    expect(validateState(state).valid).toBe(true);
+
+    const result = solve(state);
+    expect(result.status).toBe('unwinnable');
+    expect(result.solution).toBeUndefined();
+  });
+
+  it('reports inconclusive when the node budget runs out', () => {
+    const state = createInitialState({}, 3);
+    const result = solve(state, { maxNodes: 5 });
+    expect(result.status).toBe('inconclusive');
+    expect(result.nodesExplored).toBe(5);
+  });
+
+  it('respects the Vegas pass limit', () => {
+    const state = createInitialState({ scoringMode: 'vegas', unlimitedPasses: false }, 42);
+    foundationsUpTo(state, 13);
+    state.foundations[0].cards = state.foundations[0].cards.slice(0, 4);
+    state.stock.cards = [];
+    // The Five of hearts is only reachable by recycling the waste
+    state.waste.cards = [createCard('hearts', 5, true), createCard('hearts', 8, true)];
+    const tops: Rank[] = [6, 7, 9, 10, 11, 12, 13];
+    state.tableau.forEach((t, i) => (t.cards = [createCard('hearts', tops[i], true)]));
+    expect(validateState(state).valid).toBe(true);
+
+    state.stockPasses = 2;
+    expect(solve(state).status).toBe('winnable');
+
+    state.stockPasses = 3;
+    expect(solve(state).status).toBe('unwinnable');
+  });
+
+  describe('createWinnableDeal', () => {
+    it('skips deals that cannot be proven and returns the proof line', () => {
+      const deal = createWinnableDeal({}, { startSeed: 1, limits: { maxNodes: 1000 } });
+
+      expect(deal).not.toBeNull();
+      expect(deal!.seed).toBe(3);
+      expect(deal!.attempts).toBe(3);
+
+      let current = createInitialState({}, deal!.seed);
+      for (const action of deal!.solution) {
+        current = applyAction(current, action).state!;
+      }
+      expect(current.isWon).toBe(true);
+    });
+
+    it('returns null when the attempt budget runs out', () => {
+      expect(createWinnableDeal({}, { startSeed: 1, maxAttempts: 1, limits: { maxNodes: 1000 } })).toBeNull();
+    });
+
+    it('cuts the search short when the time budget runs out', () => {
+      const started = Date.now();
+      const deal = createWinnableDeal({}, { startSeed: 1, maxTimeMs: 0, limits: { maxNodes: 1_000_000 } });
+
+      expect(deal).toBeNull();
+      expect(Date.now() - started).toBeLessThan(1000);
+    });
+  });
+});
@@ -0,0 +1,303 @@
+import type {
+  Card,
+  Suit,
+  GameState,
+  PlayAction,
+  GameConfig,
+  SolverLimits,
+  SolveResult,
+  WinnableDealOptions,
+  WinnableDeal,
+} from './types';
+import { SUIT_INFO, getCardColour } from './types';
+import { SUITS } from './deck';
+import { checkWinCondition, getPassLimit } from './rules';
+import { applyAction, createInitialState } from './game';
+import { getHints } from './hints';
+import { getRuleSet } from './variants';
+
+/**
+ * Default search limits
+ */
+export const DEFAULT_SOLVER_LIMITS: SolverLimits = {
+  maxNodes: 100000,
+};
+
+/**
+ * Default options for generating winnable deals
+ * Each deal gets a small budget - it is cheaper to skip a hard deal than to prove it
+ */
+export const DEFAULT_WINNABLE_DEAL_OPTIONS: WinnableDealOptions = {
+  maxAttempts: 50,
+  limits: { maxNodes: 5000 },
+};
+
+/**
+ * A position on the search stack
+ */
+interface SearchFrame {
+  /** Position after the forced actions have been applied */
+  state: GameState;
+  /** Action that led here from the parent frame */
+  via: PlayAction | null;
+  /** Forced actions applied after `via` (flips and safe foundation moves) */
+  forced: PlayAction[];
+  /** Candidate actions, best first */
+  candidates: PlayAction[];
+  /** Index of the next candidate to try */
+  next: number;
+}
+
+/**
+ * Whether the stock can only be recycled a limited number of times
+ * (mirrors the check in resetStock)
+ */
+function hasPassLimit(state: GameState): boolean {
+  return getPassLimit(state.config) !== null;
+}
+
+/**
+ * Short code for a card (suit and rank only, so equivalent positions match)
+ */
+function cardCode(card: Card): string {
+  return `${card.rank}${card.suit[0]}${card.faceUp ? '' : '_'}`;
+}
+
+/**
+ * Build a key identifying a position for the transposition table
+ * Tableau columns, foundations and free cells are interchangeable, so they are sorted
+ */
+function positionKey(state: GameState): string {
+  const stock = state.stock.cards.map(cardCode).join('');
+  const waste = state.waste.cards.map(cardCode).join('');
+  const foundations = state.foundations
+    .map(f => (f.cards.length > 0 ? cardCode(f.cards.at(-1)!) : ''))
+    .sort()
+    .join(',');
+  const tableau = state.tableau
+    .map(t => t.cards.map(cardCode).join(''))
+    .sort()
+    .join('|');
+  const cells = state.cells
+    .map(c => c.cards.map(cardCode).join(''))
+    .sort()
+    .join(',');
+  const passes = hasPassLimit(state) ? state.stockPasses : '';
+
+  return `${stock}/${waste}/${foundations}/${tableau}/${cells}/${passes}`;
+}
+
+/**
+ * Highest rank of a suit already on the foundations (0 if none)
+ */
+function foundationRank(state: GameState, suit: Suit): number {
+  for (const foundation of state.foundations) {
+    const topCard = foundation.cards.at(-1);
+    if (topCard && topCard.suit === suit) {
+      return topCard.rank;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Whether moving a card to a foundation can never cost the game
+ * True for Aces and Twos, or when both opposite-colour cards one rank lower
+ * are already on foundations (so nothing could still need to be built on it)
+ */
+function isSafeFoundationMove(state: GameState, card: Card): boolean {
+  if (card.rank <= 2) {
+    return true;
+  }
+
+  const colour = getCardColour(card);
+  return SUITS
+    .filter(suit => SUIT_INFO[suit].colour !== colour)
+    .every(suit => foundationRank(state, suit) >= card.rank - 1);
+}
+
+/**
+ * Find a forced action: flip a face-down tableau top, or a safe foundation move
+ */
+function findForcedAction(state: GameState): PlayAction | null {
+  const rules = getRuleSet(state.config.variant);
+
+  for (let i = 0; i < state.tableau.length; i++) {
+    const topCard = state.tableau[i].cards.at(-1);
+    if (topCard && !topCard.faceUp) {
+      return { type: 'FLIP_CARD', tableauIndex: i };
+    }
+  }
+
+  for (let i = 0; i < state.tableau.length; i++) {
+    const tableau = state.tableau[i];
+    const topCard = tableau.cards.at(-1);
+    if (!topCard || !isSafeFoundationMove(state, topCard)) continue;
+
+    for (let j = 0; j < state.foundations.length; j++) {
+      const foundation = state.foundations[j];
+      if (rules.canPlaceOnFoundation(topCard, foundation, state)) {
+        return {
+          type: 'MOVE_CARDS',
+          from: { pileType: 'tableau', pileIndex: i, cardIndex: tableau.cards.length - 1 },
+          to: { pileType: 'foundation', pileIndex: j, cardIndex: foundation.cards.length },
+          cardCount: 1,
+        };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Apply forced actions until none remain
+ */
+function normalize(state: GameState): { state: GameState; forced: PlayAction[] } {
+  const forced: PlayAction[] = [];
+  let current = state;
+
+  for (let action = findForcedAction(current); action; action = findForcedAction(current)) {
+    const result = applyAction(current, action);
+    if (!result.success || !result.state) break;
+    forced.push(action);
+    current = result.state;
+  }
+
+  return { state: current, forced };
+}
+
+/**
+ * List the actions worth searching from a position, best first
+ * Only prunes moves that cannot lead anywhere new, so proofs stay sound
+ */
+function generateCandidates(state: GameState): PlayAction[] {
+  const firstEmptyColumn = state.tableau.findIndex(t => t.cards.length === 0);
+
+  return getHints(state)
+    .filter(hint => {
+      if (hint.reason === 'no-progress') return false;
+      // Empty columns are interchangeable - only try the first
+      const { target } = hint;
+      return !target ||
+        target.pileType !== 'tableau' ||
+        state.tableau[target.pileIndex].cards.length > 0 ||
+        target.pileIndex === firstEmptyColumn;
+    })
+    .map(hint => hint.action);
+}
+
+/**
+ * Collect the winning line from the search stack
+ */
+function collectSolution(stack: SearchFrame[], last?: { via: PlayAction; forced: PlayAction[] }): PlayAction[] {
+  const solution: PlayAction[] = [];
+  for (const frame of [...stack, ...(last ? [last] : [])]) {
+    if (frame.via) solution.push(frame.via);
+    solution.push(...frame.forced);
+  }
+  return solution;
+}
+
+/**
+ * Search for a winning line from any position
+ * Depth-first search with a transposition table; honours the state's draw
+ * mode and stock pass limit because every action goes through the normal
+ * game transitions. Returns 'unwinnable' only when the search space was
+ * exhausted, and 'inconclusive' when the limits were hit first.
+ */
+export function solve(state: GameState, limits: SolverLimits = {}): SolveResult {
+  const { maxNodes = Infinity, maxTimeMs } = { ...DEFAULT_SOLVER_LIMITS, ...limits };
+  const deadline = maxTimeMs !== undefined ? Date.now() + maxTimeMs : Infinity;
+
+  const start = normalize(state);
+  if (checkWinCondition(start.state)) {
+    return { status: 'winnable', solution: start.forced, nodesExplored: 1 };
+  }
+
+  const visited = new Set<string>([positionKey(start.state)]);
+  const stack: SearchFrame[] = [{
+    state: start.state,
+    via: null,
+    forced: start.forced,
+    candidates: generateCandidates(start.state),
+    next: 0,
+  }];
+  let nodesExplored = 1;
+
+  while (stack.length > 0) {
+    if (nodesExplored >= maxNodes || Date.now() > deadline) {
+      return { status: 'inconclusive', nodesExplored };
+    }
+
+    const frame = stack[stack.length - 1];
+    if (frame.next >= frame.candidates.length) {
+      stack.pop();
+      continue;
+    }
+
+    const action = frame.candidates[frame.next++];
+    const result = applyAction(frame.state, action);
+    if (!result.success || !result.state) continue;
+
+    const next = normalize(result.state);
+    if (checkWinCondition(next.state)) {
+      return {
+        status: 'winnable',
+        solution: collectSolution(stack, { via: action, forced: next.forced }),
+        nodesExplored,
+      };
+    }
+
+    const key = positionKey(next.state);
+    if (visited.has(key)) continue;
+    visited.add(key);
+    nodesExplored++;
+
+    stack.push({
+      state: next.state,
+      via: action,
+      forced: next.forced,
+      candidates: generateCandidates(next.state),
+      next: 0,
+    });
+  }
+
+  return { status: 'unwinnable', nodesExplored };
+}
+
+/**
+ * Keep dealing until the solver proves a deal winnable
+ * Each search is cut off when the overall time budget runs out.
+ * Returns null if no deal was proven within the attempt or time budget
+ */
+export function createWinnableDeal(
+  config: Partial<GameConfig> = {},
+  options: WinnableDealOptions = {}
+): WinnableDeal | null {
+  const { startSeed, maxAttempts = Infinity, maxTimeMs, limits } = {
+    ...DEFAULT_WINNABLE_DEAL_OPTIONS,
+    ...options,
+  };
+  const deadline = maxTimeMs !== undefined ? Date.now() + maxTimeMs : Infinity;
+
+  for (let attempts = 1; attempts <= maxAttempts; attempts++) {
+    const seed = startSeed !== undefined
+      ? startSeed + attempts - 1
+      : Math.floor(Math.random() * 2 ** 31);
+
+    const remainingMs = deadline - Date.now();
+    const result = solve(createInitialState(config, seed), Number.isFinite(remainingMs)
+      ? { ...limits, maxTimeMs: Math.min(limits?.maxTimeMs ?? Infinity, Math.max(0, remainingMs)) }
+      : limits);
+    if (result.status === 'winnable') {
+      return { seed, solution: result.solution!, attempts };
+    }
+
+    if (Date.now() > deadline) {
+      break;
+    }
+  }
+
+  return null;
+}
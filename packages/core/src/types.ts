@@ -1,3 +1,5 @@
+import type { GameHistory } from './game';
+
 /**
  * Card suits - using Unicode suit symbols for display
  */
@@ -30,7 +32,7 @@ export interface Card {
 /**
  * Types of piles in the game
  */
-export type PileType = 'stock' | 'waste' | 'foundation' | 'tableau';
+export type PileType = 'stock' | 'waste' | 'foundation' | 'tableau' | 'cell';
 
 /**
  * A pile of cards
@@ -42,7 +44,7 @@ export interface Pile {
   type: PileType;
   /** Cards in the pile (bottom to top) */
   cards: Card[];
-  /** For tableau piles, the column index (0-6) */
+  /** For tableau piles, the column index (from 0; the count depends on the variant and config) */
   tableauIndex?: number;
   /** For foundation piles, the suit (once established) */
   foundationSuit?: Suit;
@@ -58,18 +60,131 @@ export type DrawMode = 'draw-one' | 'draw-three';
  */
 export type ScoringMode = 'standard' | 'vegas' | 'none';
 
+/**
+ * Which cards are played to the foundations after every move
+ * - `off`: none
+ * - `safe`: cards no lower opposite-colour card could still need in the tableau
+ * - `all`: every card a foundation accepts
+ */
+export type AutoPlayMode = 'off' | 'safe' | 'all';
+
+/**
+ * When a player may undo
+ * - `unlimited`: any number of free undos
+ * - `limited`: up to `undoLimit` undos per game
+ * - `disabled`: no undo
+ * - `penalty`: any number, each charged the scoring profile's `undo` points
+ */
+export type UndoMode = 'unlimited' | 'limited' | 'disabled' | 'penalty';
+
+/**
+ * Points scored for each kind of move
+ * Negative values are penalties.
+ */
+export interface ScoringProfile {
+  /** Score a new game starts on (Vegas: minus the stake) */
+  initialScore: number;
+  /** Waste to tableau */
+  wasteToTableau: number;
+  /** Waste to foundation */
+  wasteToFoundation: number;
+  /** Tableau (or free cell) to foundation */
+  tableauToFoundation: number;
+  /** Foundation back to tableau */
+  foundationToTableau: number;
+  /** Turning over a tableau card as part of a move */
+  revealCard: number;
+  /** Recycling the waste to the stock, per pass */
+  recycleWaste: Record<DrawMode, number>;
+  /** Every move or deal (Spider) */
+  move: number;
+  /** Each complete King-to-Ace run removed (Spider) */
+  completeRun: number;
+  /** Undoing a move (charged after the move's own points are taken back) */
+  undo: number;
+  /** Whether recycle, undo and time penalties may take the score below zero */
+  allowNegative: boolean;
+  /** Every 10 seconds of play in a timed game */
+  timePenalty: number;
+  /** Whether winning a timed game adds the Windows 3.1 time bonus */
+  timeBonus: boolean;
+}
+
+/**
+ * How new deals are chosen
+ * 'winnable' only deals games the solver has proven can be won
+ */
+export type DealMode = 'random' | 'winnable';
+
+/**
+ * Patience game being played (each has a RuleSet)
+ */
+export type Variant =
+  | 'klondike'
+  | 'spider'
+  | 'freecell'
+  | 'pyramid'
+  | 'tripeaks'
+  | 'golf'
+  | 'yukon'
+  | 'russian';
+
+/**
+ * Version of the seeded shuffle that turns a seed into a deal
+ * - 1: original LCG (loses precision, kept for old seeds)
+ * - 2: Mulberry32 (exact 32-bit integer arithmetic)
+ */
+export type DealAlgorithm = 1 | 2;
+
+/**
+ * A seeded source of random unsigned 32-bit integers
+ */
+export type RandomGenerator = () => number;
+
+/**
+ * Number of suits in a Spider deck (fewer suits is easier)
+ */
+export type SpiderSuits = 1 | 2 | 4;
+
 /**
  * Game configuration options
  */
 export interface GameConfig {
+  /** Which patience game's rules to play by */
+  variant: Variant;
   /** How many cards to draw from stock */
   drawMode: DrawMode;
+  /** Cards turned from the stock at once, or null to follow drawMode (drawMode still picks the recycle penalty) */
+  drawCount: number | null;
   /** Scoring system to use */
   scoringMode: ScoringMode;
-  /** Whether to allow unlimited passes through the deck (Vegas typically limits to 3) */
+  /** Custom point table, or null for the scoringMode's own (see getScoringProfile) */
+  scoringProfile: ScoringProfile | null;
+  /** Whether the clock counts against the score (time penalty, then a bonus on winning) */
+  timedGame: boolean;
+  /** Whether to allow unlimited passes through the deck (false limits them to 3, as in Vegas) */
   unlimitedPasses: boolean;
-  /** Whether to automatically flip exposed tableau cards (false = click to flip) */
+  /** Times the waste can be turned back into the stock, in any scoring mode, or null to follow unlimitedPasses */
+  passLimit: number | null;
+  /** When the player may undo */
+  undoMode: UndoMode;
+  /** Undos allowed per game in the limited undo mode */
+  undoLimit: number;
+  /**
+   * Whether to automatically flip exposed tableau cards (false = click to flip)
+   * Grid layouts (TriPeaks) and Spider always turn up uncovered cards.
+   */
   autoFlipTableau: boolean;
+  /** Which cards are played to the foundations after every move */
+  autoPlay: AutoPlayMode;
+  /** Number of suits used by Spider */
+  spiderSuits: SpiderSuits;
+  /** Number of decks shuffled together in Klondike (four foundations per deck) */
+  decks: number;
+  /** Number of tableau columns in Klondike (dealt 1 to N cards; fewer is easier) */
+  tableauColumns: number;
+  /** Seeded shuffle used to deal, so a seed always deals the same cards */
+  dealAlgorithm: DealAlgorithm;
 }
 
 /**
@@ -80,10 +195,12 @@ export interface GameState {
   stock: Pile;
   /** The waste pile (drawn cards) */
   waste: Pile;
-  /** The four foundation piles */
-  foundations: [Pile, Pile, Pile, Pile];
-  /** The seven tableau piles */
-  tableau: [Pile, Pile, Pile, Pile, Pile, Pile, Pile];
+  /** The foundation piles (four per deck in Klondike) */
+  foundations: Pile[];
+  /** The tableau piles (config.tableauColumns in Klondike, seven by default) */
+  tableau: Pile[];
+  /** Free cells, each holding at most one card (FreeCell; empty otherwise) */
+  cells: Pile[];
   /** Current score */
   score: number;
   /** Number of moves made */
@@ -96,17 +213,128 @@ export interface GameState {
   isWon: boolean;
   /** Number of passes through the stock */
   stockPasses: number;
+  /** Seconds of play already charged the time penalty (timed games) */
+  timeCharged: number;
+  /** Undos taken this game (undoing doesn't take this back) */
+  undoCount: number;
+  /** Seed the deal was shuffled with (null for an unseeded shuffle) */
+  seed: number | null;
   /** Game configuration */
   config: GameConfig;
 }
 
+/**
+ * Piles a rule set plays with
+ */
+export interface PileLayout {
+  /** Number of foundation piles */
+  foundations: number;
+  /** Number of tableau piles */
+  tableau: number;
+  /** Number of free cells */
+  cells: number;
+  /** Whether cards are left over in a stock */
+  stock: boolean;
+  /** Whether stock cards are turned onto a waste pile */
+  waste: boolean;
+  /**
+   * Overlapping positions of the tableau piles, one per pile (Pyramid,
+   * TriPeaks); without it the tableau is laid out as a row of columns
+   */
+  grid?: GridSlot[];
+}
+
+/**
+ * Position of a tableau pile in an overlapping card grid
+ * Each pile holds one card, which is blocked until every pile overlapping it
+ * has been cleared.
+ */
+export interface GridSlot {
+  /** Row from the top, in half card heights */
+  row: number;
+  /** Column from the left, in half card widths */
+  column: number;
+  /** Tableau piles lying on top of this one */
+  coveredBy: number[];
+}
+
+/**
+ * Cards dealt to the starting piles by a rule set
+ */
+export interface Deal {
+  /** Cards for each tableau pile (bottom to top) */
+  tableau: Card[][];
+  /** Cards left in the stock (bottom to top) */
+  stock: Card[];
+  /** Cards started on each foundation (defaults to none) */
+  foundations?: Card[][];
+}
+
+/**
+ * The rules of a patience game
+ * The engine (moves, hints, undo, scoring) is shared; a rule set decides the
+ * deal, which cards may be picked up and placed, and when the game is won.
+ */
+export interface RuleSet {
+  /** Variant this rule set implements */
+  variant: Variant;
+  /** Display name */
+  name: string;
+  /** Piles the game is played with */
+  layout(config: GameConfig): PileLayout;
+  /** Build the unshuffled deck (defaults to one 52-card deck) */
+  createDeck?(config: GameConfig): Card[];
+  /** Shuffle the deck for a seed, or randomly without one (defaults to shuffleWithSeed) */
+  shuffleDeck?(deck: Card[], seed?: number): Card[];
+  /** Why a config can't be dealt, or null if it can (checked by createInitialState) */
+  validateConfig?(config: GameConfig): string | null;
+  /** Deal a shuffled deck into the starting piles */
+  deal(deck: Card[], config: GameConfig): Deal;
+  /** Whether the stock may be drawn from now (defaults to whenever it has cards) */
+  canDrawFromStock?(state: GameState): boolean;
+  /** Move cards off the stock in a copy of the state (defaults to turning cards onto the waste) */
+  drawFromStock?(state: GameState): void;
+  /**
+   * Move finished sequences (Spider runs, Pyramid pairs) off the tableau in a
+   * copy of the state after a move or draw, returning how many were moved
+   */
+  removeCompletedRuns?(state: GameState): number;
+  /**
+   * Whether cards left on top of a tableau column turn up by themselves,
+   * whatever config.autoFlipTableau says (Spider has no click to flip)
+   */
+  autoFlipTableau?: boolean;
+  /**
+   * Whether a foundation's cards are in a legal order, for validating loaded
+   * games (defaults to built up in suit from the Ace)
+   */
+  isValidFoundation?(foundation: Pile): boolean;
+  /** Whether a card can be placed on a foundation pile */
+  canPlaceOnFoundation(card: Card, foundation: Pile, state: GameState): boolean;
+  /** Whether a card (with any cards on top of it) can be placed on a tableau pile */
+  canPlaceOnTableau(card: Card, tableau: Pile, state: GameState): boolean;
+  /** Whether the cards from an index to the top of a pile can be picked up */
+  canPickUpCards(pile: Pile, fromIndex: number, state: GameState): boolean;
+  /** Largest stack that can be moved to a location at once (defaults to unlimited) */
+  maxMovableCards?(state: GameState, to: CardLocation): number;
+  /** Whether the game has been won */
+  checkWinCondition(state: GameState): boolean;
+  /**
+   * Whether auto-complete can finish the game (defaults to every card face up
+   * with the stock and waste empty)
+   */
+  canAutoComplete?(state: GameState): boolean;
+  /** Whether the autoPlay option applies (defaults to true) */
+  autoPlay?: boolean;
+}
+
 /**
  * Location of a card in the game
  */
 export interface CardLocation {
   /** Type of pile */
   pileType: PileType;
-  /** Index of the pile (for foundations 0-3, for tableau 0-6) */
+  /** Index of the pile among piles of its type (0 for stock and waste) */
   pileIndex: number;
   /** Index of the card within the pile */
   cardIndex: number;
@@ -126,16 +354,81 @@ export interface Move {
   flippedCard: boolean;
   /** Score change from this move */
   scoreChange: number;
+  /** Complete sequences moved off the tableau by this move (Spider) */
+  completedRuns?: number;
+}
+
+/**
+ * The counters and clock of a game, apart from its cards
+ */
+export type GameCounters = Pick<
+  GameState,
+  'score' | 'moves' | 'startTime' | 'endTime' | 'isWon' | 'stockPasses' | 'timeCharged'
+>;
+
+/**
+ * How an action changed the top of one pile
+ */
+export interface PileChange {
+  /** Which pile changed */
+  pileType: PileType;
+  /** Index of the pile among piles of its type (0 for stock and waste) */
+  pileIndex: number;
+  /** Cards at the bottom of the pile the action left alone */
+  keep: number;
+  /** Cards above those before the action, bottom to top */
+  removed: Card[];
+  /** Cards above those after the action, bottom to top */
+  added: Card[];
+}
+
+/**
+ * Everything an action changed, so it can be undone without a snapshot
+ */
+export interface StateDelta {
+  /** Piles whose cards changed (moves, flips, recycles and deals) */
+  piles: PileChange[];
+  /** Counters before the action */
+  before: GameCounters;
+  /** Counters after the action */
+  after: GameCounters;
 }
 
 /**
  * History entry for undo functionality
  */
 export interface HistoryEntry {
-  /** The move that was made */
-  move: Move;
-  /** State before the move (for complex undo scenarios) */
-  previousState: GameState;
+  /** The action that was played */
+  action: RecordedAction;
+  /** How the action changed the game */
+  delta: StateDelta;
+  /** Points the action itself scored (excluding the game clock) */
+  scoreChange: number;
+  /** When the action was played, on the game clock */
+  time: number;
+}
+
+/**
+ * An action as played, for replay logs (undos included)
+ */
+export type PlayedAction = Pick<HistoryEntry, 'action' | 'time'>;
+
+/**
+ * A position in the branching undo history
+ */
+export interface HistoryNode {
+  /** Node ID (0 is the deal) */
+  id: number;
+  /** Node this one was played from (null for the deal) */
+  parentId: number | null;
+  /** The action that led here (null for the deal) */
+  entry: HistoryEntry | null;
+  /** Nodes played from this one, oldest first */
+  children: number[];
+  /** Child that redo plays (the branch most recently played or visited) */
+  redoChild: number | null;
+  /** Actions from the deal */
+  depth: number;
 }
 
 /**
@@ -146,10 +439,262 @@ export type GameAction =
   | { type: 'DRAW_FROM_STOCK' }
   | { type: 'RESET_STOCK' }
   | { type: 'MOVE_CARDS'; from: CardLocation; to: CardLocation; cardCount: number }
+  | { type: 'FLIP_CARD'; tableauIndex: number }
   | { type: 'AUTO_COMPLETE' }
   | { type: 'UNDO' }
   | { type: 'REDO' };
 
+/**
+ * An action as dispatched by a game UI (the actions a replay log records)
+ */
+export type RecordedAction =
+  | { type: 'DRAW' }
+  | { type: 'RESET_STOCK' }
+  | { type: 'MOVE'; from: CardLocation; to: CardLocation; cardCount: number }
+  | { type: 'AUTO_MOVE'; from: CardLocation }
+  | { type: 'FLIP_CARD'; tableauIndex: number }
+  | { type: 'AUTO_COMPLETE_STEP' }
+  | { type: 'AUTO_PLAY' }
+  | { type: 'UNDO' };
+
+/**
+ * A replay log: everything needed to re-run a game from its deal
+ */
+export interface ReplayLog {
+  /** Replay format version */
+  version: number;
+  /** Deal seed */
+  seed: number;
+  /** Game configuration */
+  config: GameConfig;
+  /** Encoded actions in dispatch order (see encodeReplayAction) */
+  actions: string[];
+  /** Milliseconds since the game started for each action */
+  times: number[];
+}
+
+/**
+ * Result of re-running a replay log with verifyGame
+ */
+export interface GameVerification {
+  /** Whether every action was legal and the log is well formed */
+  valid: boolean;
+  /** Why the log was rejected */
+  error?: string;
+  /** Index of the first rejected action */
+  failedAt?: number;
+  /** Whether the replayed game ends won */
+  isWon: boolean;
+  /** Recomputed score (after any time penalty), before the time bonus */
+  score: number;
+  /** Time bonus for a won standard-scoring game (see ScoringProfile.timeBonus) */
+  timeBonus: number;
+  /** Score including the time bonus */
+  finalScore: number;
+  /** Move counter at the end of the game */
+  moves: number;
+  /** Seconds from the first action to the win (or the last action) */
+  time: number;
+}
+
+/**
+ * Options for verifyGame
+ */
+export interface VerifyOptions {
+  /**
+   * Custom point tables the server accepts; a log scored with any other
+   * custom scoringProfile is rejected, as the client chose it
+   */
+  scoringProfiles?: ScoringProfile[];
+}
+
+/**
+ * A single player action that changes the position
+ * (the subset of GameAction that can be replayed against a state)
+ */
+export type PlayAction = Extract<
+  GameAction,
+  { type: 'DRAW_FROM_STOCK' | 'RESET_STOCK' | 'MOVE_CARDS' | 'FLIP_CARD' }
+>;
+
+/**
+ * Machine-readable reason attached to a hint
+ */
+export type HintReason =
+  | 'flip-card'
+  | 'to-foundation'
+  | 'reveals-card'
+  | 'waste-to-tableau'
+  | 'from-cell'
+  | 'empties-column'
+  | 'builds-tableau'
+  | 'draw-stock'
+  | 'recycle-waste'
+  | 'to-cell'
+  | 'from-foundation'
+  | 'no-progress';
+
+/**
+ * What is left to play in a position
+ * - `playable`: a move that changes the position, possibly after turning the stock
+ * - `pointless`: only moves that change nothing (turning the stock round,
+ *   shifting cards between equivalent places)
+ * - `none`: no legal move at all
+ */
+export type MoveAvailability = 'playable' | 'pointless' | 'none';
+
+/**
+ * A suggested action with its heuristic ranking
+ */
+export interface Hint {
+  /** The action to take */
+  action: PlayAction;
+  /** Heuristic score (higher is better) */
+  score: number;
+  /** Why the action was suggested */
+  reason: HintReason;
+  /** Card to highlight (the moved card, flipped card, or stock top) */
+  source: CardLocation;
+  /** Destination pile to highlight (for card moves) */
+  target?: CardLocation;
+}
+
+/**
+ * Search limits for the solver
+ */
+export interface SolverLimits {
+  /** Maximum number of distinct positions to expand */
+  maxNodes?: number;
+  /** Maximum wall-clock time to search, in milliseconds */
+  maxTimeMs?: number;
+}
+
+/**
+ * Outcome of a solver search
+ */
+export type SolveStatus = 'winnable' | 'unwinnable' | 'inconclusive';
+
+/**
+ * Result of a solver search
+ */
+export interface SolveResult {
+  /** Whether the position was proven winnable, proven unwinnable, or the budget ran out */
+  status: SolveStatus;
+  /** Winning action sequence from the given state (if winnable) */
+  solution?: PlayAction[];
+  /** Number of distinct positions expanded */
+  nodesExplored: number;
+}
+
+/**
+ * Options for generating a winnable deal
+ */
+export interface WinnableDealOptions {
+  /** First seed to try (later attempts count up from it); random seeds if omitted */
+  startSeed?: number;
+  /** Maximum number of deals to try */
+  maxAttempts?: number;
+  /** Overall time budget in milliseconds (also cuts a search short) */
+  maxTimeMs?: number;
+  /** Solver limits for each deal */
+  limits?: SolverLimits;
+}
+
+/**
+ * A deal proven winnable by the solver
+ */
+export interface WinnableDeal {
+  /** Seed that reproduces the deal */
+  seed: number;
+  /** Winning action sequence from the initial state */
+  solution: PlayAction[];
+  /** Number of deals tried */
+  attempts: number;
+}
+
+/**
+ * A position as written by serializeGame (cards as save codes, bottom to top)
+ */
+export interface SavedPosition {
+  stock: string[];
+  waste: string[];
+  foundations: string[][];
+  tableau: string[][];
+  /** Free cells (absent for games without them) */
+  cells?: string[][];
+  score: number;
+  moves: number;
+  stockPasses: number;
+  /** Seconds charged the time penalty (absent in older saves) */
+  timeCharged?: number;
+  /** Undos taken (absent in older saves) */
+  undoCount?: number;
+  isWon: boolean;
+  startTime: number | null;
+  endTime: number | null;
+}
+
+/**
+ * A saved game as written by serializeGame
+ */
+export interface SavedGame {
+  /** Save format version */
+  version: number;
+  /** Game configuration */
+  config: GameConfig;
+  /** Deal seed (null for an unseeded shuffle) */
+  seed: number | null;
+  /** When the game was saved */
+  savedAt: number;
+  /** Current position */
+  position: SavedPosition;
+  /** Branching undo history */
+  history: {
+    /** Every recorded action, oldest first; entry i leads to node i + 1 (node 0 is the deal) */
+    entries: SavedHistoryEntry[];
+    /** Node each entry was played from */
+    parents: number[];
+    /** Node redo follows from each node, the deal first */
+    redo: Array<number | null>;
+    /** Node of the current position */
+    current: number;
+    /** Actions that reached the current position, undos included, as replay tokens */
+    played: { actions: string[]; times: number[] };
+  };
+}
+
+/**
+ * A history entry as written by serializeGame
+ */
+export interface SavedHistoryEntry {
+  /** The action, as a replay token */
+  action: string;
+  /** Changed piles: pile code (`s0`, `w0`, `f1`, `t3`, `c0`), cards kept, and card codes above them */
+  piles: Array<{ pile: string; keep: number; removed: string[]; added: string[] }>;
+  /** Counters before the action */
+  before: GameCounters;
+  /** Counters after the action */
+  after: GameCounters;
+  /** Points the action itself scored */
+  scoreChange: number;
+  /** When the action was played */
+  time: number;
+}
+
+/**
+ * Result of loading a saved game
+ */
+export interface LoadGameResult {
+  /** Whether the save was read and validated */
+  success: boolean;
+  /** The restored game state (if successful) */
+  state?: GameState;
+  /** The restored undo history (if successful) */
+  history?: GameHistory;
+  /** Error message (if unsuccessful) */
+  error?: string;
+}
+
 /**
  * Result of attempting a move
  */
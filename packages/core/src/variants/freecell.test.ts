@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest';
+import { createCard } from '../deck';
+import { createInitialState, executeMove, autoMoveToFoundation } from '../game';
+import { isValidMove, canAutoComplete, findAutoCompleteMove } from '../rules';
+import { deserializeGame, serializeGame } from '../save';
+import type { Card, GameState, Rank, Suit } from '../types';
+
+const RANK_NAMES = ['', 'A', '2', '3', '4', '5', '6', '7', '8', '9', 'T', 'J', 'Q', 'K'];
+
+/**
+ * Short name for a card, e.g. "JD" for the Jack of diamonds
+ */
+function name(card: Card): string {
+  return `${RANK_NAMES[card.rank]}${card.suit[0].toUpperCase()}`;
+}
+
+/**
+ * A FreeCell game with every pile emptied
+ */
+function emptyFreeCell(): GameState {
+  const state = createInitialState({ variant: 'freecell' }, 1);
+  state.tableau.forEach(t => (t.cards = []));
+  return state;
+}
+
+describe('freecell', () => {
+  it('deals 52 face-up cards to eight columns with four free cells', () => {
+    const state = createInitialState({ variant: 'freecell' }, 1);
+
+    expect(state.tableau.map(t => t.cards.length)).toEqual([7, 7, 7, 7, 6, 6, 6, 6]);
+    expect(state.tableau.every(t => t.cards.every(c => c.faceUp))).toBe(true);
+    expect(state.cells).toHaveLength(4);
+    expect(state.stock.cards).toHaveLength(0);
+    expect(state.waste.cards).toHaveLength(0);
+  });
+
+  it.each([
+    [1, ['JD', '2D', '9H', 'JC', '5D', '7H', '7C', '5H'], ['KD', 'KC', '9S', '5S', 'AD', 'QC', 'KH', '3H']],
+    [617, ['7D', 'AD', '5C', '3S', '5S', '8C', '2D', 'AH'], undefined],
+  ])('matches Microsoft deal #%i', (seed, firstRow, secondRow) => {
+    const state = createInitialState({ variant: 'freecell' }, seed);
+
+    expect(state.tableau.map(t => name(t.cards[0]))).toEqual(firstRow);
+    if (secondRow) {
+      expect(state.tableau.map(t => name(t.cards[1]))).toEqual(secondRow);
+    }
+  });
+
+  it('allows any card to an empty column', () => {
+    const state = emptyFreeCell();
+    state.tableau[0].cards = [createCard('hearts', 7, true)];
+
+    expect(isValidMove(
+      state,
+      { pileType: 'tableau', pileIndex: 0, cardIndex: 0 },
+      { pileType: 'tableau', pileIndex: 1, cardIndex: 0 },
+      1
+    )).toBe(true);
+  });
+
+  it('moves single cards in and out of empty free cells', () => {
+    const state = emptyFreeCell();
+    state.tableau[0].cards = [createCard('spades', 9, true), createCard('hearts', 8, true)];
+    state.tableau[1].cards = [createCard('clubs', 9, true)];
+    state.cells[1].cards = [createCard('diamonds', 4, true)];
+
+    const from = { pileType: 'tableau' as const, pileIndex: 0, cardIndex: 1 };
+    expect(isValidMove(state, from, { pileType: 'cell', pileIndex: 1, cardIndex: 1 }, 1)).toBe(false);
+    expect(isValidMove(
+      state,
+      { pileType: 'tableau', pileIndex: 0, cardIndex: 0 },
+      { pileType: 'cell', pileIndex: 0, cardIndex: 0 },
+      2
+    )).toBe(false);
+
+    const result = executeMove(state, from, { pileType: 'cell', pileIndex: 0, cardIndex: 0 }, 1);
+    expect(result.success).toBe(true);
+    expect(result.state!.cells[0].cards.map(name)).toEqual(['8H']);
+
+    const back = executeMove(
+      result.state!,
+      { pileType: 'cell', pileIndex: 0, cardIndex: 0 },
+      { pileType: 'tableau', pileIndex: 1, cardIndex: 1 },
+      1
+    );
+    expect(back.success).toBe(true);
+    expect(back.state!.tableau[1].cards.map(name)).toEqual(['9C', '8H']);
+  });
+
+  it('limits stack moves by the empty free cells and columns', () => {
+    const state = emptyFreeCell();
+    state.tableau[0].cards = [
+      createCard('spades', 10, true),
+      createCard('hearts', 9, true),
+      createCard('clubs', 8, true),
+      createCard('diamonds', 7, true),
+    ];
+    state.tableau[1].cards = [createCard('hearts', 11, true)];
+    state.tableau[2].cards = [createCard('clubs', 2, true)];
+    state.tableau[3].cards = [createCard('clubs', 3, true)];
+    state.tableau[4].cards = [createCard('clubs', 4, true)];
+    state.tableau[5].cards = [createCard('clubs', 5, true)];
+    state.tableau[6].cards = [createCard('clubs', 6, true)];
+    state.tableau[7].cards = [createCard('clubs', 12, true)];
+    state.cells.forEach(c => (c.cards = [createCard('hearts', 13, true)]));
+
+    const from = { pileType: 'tableau' as const, pileIndex: 0, cardIndex: 0 };
+    const to = { pileType: 'tableau' as const, pileIndex: 1, cardIndex: 1 };
+
+    // No free cells or columns: one card at a time
+    expect(isValidMove(state, from, to, 4)).toBe(false);
+
+    // Three free cells: up to four cards
+    state.cells.slice(1).forEach(c => (c.cards = []));
+    expect(isValidMove(state, from, to, 4)).toBe(true);
+
+    // One free cell and an empty column: up to four cards
+    state.cells[1].cards = [createCard('hearts', 13, true)];
+    state.cells[2].cards = [createCard('hearts', 13, true)];
+    state.tableau[7].cards = [];
+    expect(isValidMove(state, from, to, 4)).toBe(true);
+
+    // The empty destination column doesn't count
+    expect(isValidMove(state, from, { pileType: 'tableau', pileIndex: 7, cardIndex: 0 }, 4)).toBe(false);
+    expect(isValidMove(
+      state,
+      { pileType: 'tableau', pileIndex: 0, cardIndex: 2 },
+      { pileType: 'tableau', pileIndex: 7, cardIndex: 0 },
+      2
+    )).toBe(true);
+  });
+
+  it('only picks up alternating runs', () => {
+    const state = emptyFreeCell();
+    state.tableau[0].cards = [createCard('spades', 9, true), createCard('clubs', 8, true)];
+    state.tableau[1].cards = [createCard('hearts', 10, true)];
+
+    expect(isValidMove(
+      state,
+      { pileType: 'tableau', pileIndex: 0, cardIndex: 0 },
+      { pileType: 'tableau', pileIndex: 1, cardIndex: 1 },
+      2
+    )).toBe(false);
+  });
+
+  it('auto-completes once every column is in order', () => {
+    const state = emptyFreeCell();
+    const suits: Suit[] = ['hearts', 'diamonds', 'clubs', 'spades'];
+    suits.forEach((suit, i) => {
+      for (let rank = 13; rank >= 2; rank--) {
+        state.tableau[i].cards.push(createCard(suit, rank as Rank, true));
+      }
+      state.cells[i].cards = [createCard(suit, 1, true)];
+    });
+
+    expect(canAutoComplete(state)).toBe(true);
+    expect(findAutoCompleteMove(state)!.from.pileType).toBe('cell');
+
+    [state.tableau[0].cards[3], state.tableau[0].cards[4]] = [state.tableau[0].cards[4], state.tableau[0].cards[3]];
+    expect(canAutoComplete(state)).toBe(false);
+  });
+
+  it('scores cards played from a free cell to a foundation', () => {
+    const state = emptyFreeCell();
+    state.tableau[0].cards = [createCard('hearts', 5, true)];
+    state.cells[0].cards = [createCard('spades', 1, true)];
+
+    const result = autoMoveToFoundation(state, { pileType: 'cell', pileIndex: 0, cardIndex: 0 });
+    expect(result.success).toBe(true);
+    expect(result.state!.score).toBe(10);
+  });
+
+  it('saves and loads the free cells', () => {
+    const state = createInitialState({ variant: 'freecell' }, 1);
+    const moved = executeMove(
+      state,
+      { pileType: 'tableau', pileIndex: 0, cardIndex: 6 },
+      { pileType: 'cell', pileIndex: 2, cardIndex: 0 },
+      1
+    ).state!;
+
+    const loaded = deserializeGame(serializeGame(moved));
+    expect(loaded.success).toBe(true);
+    expect(loaded.state!.cells.map(c => c.cards.map(name))).toEqual(moved.cells.map(c => c.cards.map(name)));
+  });
+});
@@ -0,0 +1,123 @@
+import type { Card, Pile, Suit, GameState, CardLocation, RuleSet } from '../types';
+import { getCardColour } from '../types';
+import { RANKS, createCard, shuffle } from '../deck';
+import { canPlaceOnFoundation, canPlaceOnTableau } from '../rules';
+
+/**
+ * Suit order of the Microsoft deck (card index modulo 4)
+ */
+const MS_SUITS: Suit[] = ['clubs', 'diamonds', 'hearts', 'spades'];
+
+/**
+ * Build the 52 cards in Microsoft FreeCell order:
+ * AC AD AH AS 2C 2D ... KS
+ */
+function createFreeCellDeck(): Card[] {
+  return RANKS.flatMap(rank => MS_SUITS.map(suit => createCard(suit, rank, true)));
+}
+
+/**
+ * Shuffle as Microsoft FreeCell does, so seed N deals game #N
+ * Without a seed the deck is shuffled randomly.
+ */
+function shuffleFreeCell(deck: Card[], seed?: number): Card[] {
+  if (seed === undefined) {
+    return shuffle(deck);
+  }
+
+  // Microsoft C runtime rand()
+  let current = seed;
+  const rand = (): number => {
+    current = (current * 214013 + 2531011) % 2 ** 31;
+    return Math.floor(current / 65536);
+  };
+
+  const cards = [...deck];
+  const result: Card[] = [];
+  for (let left = cards.length; left > 0; left--) {
+    const j = rand() % left;
+    result.push(cards[j]);
+    cards[j] = cards[left - 1];
+  }
+
+  return result;
+}
+
+/**
+ * Deal every card face up, row by row across eight columns
+ */
+function dealFreeCell(deck: Card[]) {
+  const tableau: Card[][] = Array.from({ length: 8 }, () => []);
+  deck.forEach((card, i) => tableau[i % 8].push({ ...card, faceUp: true }));
+  return { tableau, stock: [] };
+}
+
+/**
+ * Whether cards from an index form a run down in alternating colours
+ */
+function isAlternatingRun(pile: Pile, fromIndex: number): boolean {
+  for (let i = fromIndex + 1; i < pile.cards.length; i++) {
+    const card = pile.cards[i];
+    const below = pile.cards[i - 1];
+    if (getCardColour(card) === getCardColour(below) || card.rank !== below.rank - 1) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Largest stack that can be moved one card at a time through the empty
+ * free cells and empty columns (a "supermove")
+ * An empty destination column can't also be used as a staging column.
+ */
+function maxMovableCards(state: GameState, to: CardLocation): number {
+  const emptyCells = state.cells.filter(c => c.cards.length === 0).length;
+  const emptyColumns = state.tableau.filter(
+    (t, i) => t.cards.length === 0 && !(to.pileType === 'tableau' && to.pileIndex === i)
+  ).length;
+  return (emptyCells + 1) * 2 ** emptyColumns;
+}
+
+/**
+ * Whether every column is already in order, so the rest plays out to the
+ * foundations without using the free cells
+ */
+function isSorted(state: GameState): boolean {
+  return state.tableau.every(t =>
+    t.cards.every((card, i) => i === 0 || card.rank <= t.cards[i - 1].rank)
+  );
+}
+
+/**
+ * FreeCell: every card dealt face up to eight columns, four free cells
+ * that hold one card each, build down in alternating colours with any card
+ * to an empty column; seeds match the Microsoft deal numbers
+ */
+export const freecell: RuleSet = {
+  variant: 'freecell',
+  name: 'FreeCell',
+  layout: () => ({ foundations: 4, tableau: 8, cells: 4, stock: false, waste: false }),
+  createDeck: createFreeCellDeck,
+  shuffleDeck: shuffleFreeCell,
+  deal: dealFreeCell,
+  canPlaceOnFoundation: (card, foundation) => canPlaceOnFoundation(card, foundation),
+  canPlaceOnTableau: (card, tableau) =>
+    tableau.cards.length === 0 || canPlaceOnTableau(card, tableau),
+  canPickUpCards: (pile, fromIndex) => {
+    if (fromIndex < 0 || fromIndex >= pile.cards.length) {
+      return false;
+    }
+    switch (pile.type) {
+      case 'tableau':
+        return isAlternatingRun(pile, fromIndex);
+      case 'cell':
+        return fromIndex === pile.cards.length - 1;
+      default:
+        return false;
+    }
+  },
+  maxMovableCards,
+  checkWinCondition: state => state.foundations.every(f => f.cards.length === 13),
+  canAutoComplete: isSorted,
+};
@@ -0,0 +1,34 @@
+import type { Pile, GameState, GridSlot } from '../types';
+import { isCovered } from '../rules';
+
+/**
+ * Build grid slots from [row, column] positions (in half card sizes)
+ * Each card is overlapped by the cards in the next row half a card to
+ * either side of it.
+ */
+export function createGrid(positions: Array<[number, number]>): GridSlot[] {
+  return positions.map(([row, column]) => ({
+    row,
+    column,
+    coveredBy: positions.flatMap(([r, c], i) => (r === row + 1 && Math.abs(c - column) === 1 ? [i] : [])),
+  }));
+}
+
+/**
+ * Whether a grid card is face up with nothing overlapping it
+ */
+export function isExposed(pile: Pile, fromIndex: number, state: GameState): boolean {
+  return (
+    pile.type === 'tableau' &&
+    fromIndex === pile.cards.length - 1 &&
+    pile.cards[fromIndex]?.faceUp === true &&
+    !isCovered(state, pile.tableauIndex!)
+  );
+}
+
+/**
+ * Whether every tableau card has been cleared
+ */
+export function isTableauCleared(state: GameState): boolean {
+  return state.tableau.every(t => t.cards.length === 0);
+}
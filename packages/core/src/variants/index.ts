@@ -0,0 +1,34 @@
+import type { Variant, RuleSet } from '../types';
+import { klondike } from './klondike';
+import { spider } from './spider';
+import { freecell } from './freecell';
+import { pyramid } from './pyramid';
+import { tripeaks, golf } from './tripeaks';
+import { yukon, russian } from './yukon';
+
+/**
+ * Rule sets for every supported variant
+ */
+export const RULE_SETS: Record<Variant, RuleSet> = {
+  klondike,
+  spider,
+  freecell,
+  pyramid,
+  tripeaks,
+  golf,
+  yukon,
+  russian,
+};
+
+/**
+ * Get the rule set for a variant
+ */
+export function getRuleSet(variant: Variant): RuleSet {
+  const rules = RULE_SETS[variant];
+  if (!rules) {
+    throw new Error(`Unknown variant: ${variant}`);
+  }
+  return rules;
+}
+
+export { klondike, spider, freecell, pyramid, tripeaks, golf, yukon, russian };
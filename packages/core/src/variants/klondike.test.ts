@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { createDeck, createCard } from '../deck';
+import { createInitialState, createWonState, validateState, DEFAULT_CONFIG } from '../game';
+import { deserializeGame, serializeGame } from '../save';
+import { isValidMove, checkWinCondition } from '../rules';
+import { getRuleSet, klondike } from './index';
+import type { Variant } from '../types';
+
+describe('klondike rule set', () => {
+  it('is the default variant', () => {
+    expect(DEFAULT_CONFIG.variant).toBe('klondike');
+    expect(getRuleSet('klondike')).toBe(klondike);
+  });
+
+  it('rejects unknown variants', () => {
+    expect(() => getRuleSet('canfield' as Variant)).toThrow('Unknown variant');
+  });
+
+  it('deals 28 cards to the tableau and 24 to the stock', () => {
+    const deal = klondike.deal(createDeck(), DEFAULT_CONFIG);
+
+    expect(deal.tableau.map(cards => cards.length)).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    expect(deal.tableau.every(cards => cards.at(-1)!.faceUp)).toBe(true);
+    expect(deal.tableau.flat().filter(c => c.faceUp)).toHaveLength(7);
+    expect(deal.stock).toHaveLength(24);
+  });
+
+  it('is used by the engine for placement and winning', () => {
+    const state = createInitialState({}, 1);
+    state.tableau[0].cards = [createCard('spades', 7, true)];
+    state.tableau[1].cards = [createCard('hearts', 6, true)];
+
+    expect(klondike.canPlaceOnTableau(state.tableau[1].cards[0], state.tableau[0], state)).toBe(true);
+    expect(isValidMove(
+      state,
+      { pileType: 'tableau', pileIndex: 1, cardIndex: 0 },
+      { pileType: 'tableau', pileIndex: 0, cardIndex: 1 },
+      1
+    )).toBe(true);
+    expect(checkWinCondition(state)).toBe(klondike.checkWinCondition(state));
+  });
+
+  it('plays double Klondike with eight foundations', () => {
+    const state = createInitialState({ decks: 2 }, 1);
+
+    expect(state.foundations).toHaveLength(8);
+    expect(state.stock.cards).toHaveLength(104 - 28);
+    expect(validateState(state).valid).toBe(true);
+
+    const loaded = deserializeGame(serializeGame(state));
+    expect(loaded.success).toBe(true);
+  });
+
+  it('deals the configured number of columns', () => {
+    const state = createInitialState({ tableauColumns: 6 }, 1);
+
+    expect(state.tableau.map(t => t.cards.length)).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(state.stock.cards).toHaveLength(31);
+    expect(validateState(state).valid).toBe(true);
+  });
+
+  it('rejects more columns than the decks can deal', () => {
+    expect(() => createInitialState({ tableauColumns: 10 }, 1)).toThrow('10 tableau columns need more than one deck');
+    expect(() => createInitialState({ tableauColumns: 0 }, 1)).toThrow('Invalid number of tableau columns');
+    expect(createInitialState({ tableauColumns: 9 }, 1).stock.cards).toHaveLength(7);
+    expect(createInitialState({ tableauColumns: 10, decks: 2 }, 1).stock.cards).toHaveLength(49);
+  });
+
+  it('is won once every foundation is full', () => {
+    expect(checkWinCondition(createWonState({ decks: 2 }))).toBe(true);
+
+    const state = createWonState({ decks: 2 });
+    state.tableau[0].cards.push(state.foundations[7].cards.pop()!);
+    expect(checkWinCondition(state)).toBe(false);
+  });
+});
@@ -0,0 +1,70 @@
+import type { Card, GameConfig, GameState, RuleSet } from '../types';
+import { createDeck, flipCard } from '../deck';
+import { canPlaceOnFoundation, canPlaceOnTableau, canPickUpCards } from '../rules';
+
+/**
+ * Deal the configured number of tableau columns with 1 to N cards, top
+ * cards face up, with the remaining cards in the stock
+ */
+function dealKlondike(deck: Card[], config: GameConfig) {
+  const columns = config.tableauColumns;
+  const tableau: Card[][] = Array.from({ length: columns }, () => []);
+
+  let cardIndex = 0;
+  for (let col = 0; col < columns; col++) {
+    for (let row = col; row < columns; row++) {
+      // Only the top card (first card dealt to each pile) is face up
+      tableau[row].push(flipCard(deck[cardIndex++], row === col));
+    }
+  }
+
+  return { tableau, stock: deck.slice(cardIndex) };
+}
+
+/**
+ * Check the columns can be dealt with cards left over for the stock
+ */
+function validateKlondikeConfig(config: GameConfig): string | null {
+  const { decks, tableauColumns } = config;
+  if (!Number.isInteger(decks) || decks < 1) {
+    return `Invalid number of decks: ${decks}`;
+  }
+  if (!Number.isInteger(tableauColumns) || tableauColumns < 1) {
+    return `Invalid number of tableau columns: ${tableauColumns}`;
+  }
+  if ((tableauColumns * (tableauColumns + 1)) / 2 >= 52 * decks) {
+    return `${tableauColumns} tableau columns need more than ${decks === 1 ? 'one deck' : `${decks} decks`}`;
+  }
+  return null;
+}
+
+/**
+ * Whether every card is on the foundations
+ */
+function allOnFoundations(state: GameState): boolean {
+  return state.foundations.every(foundation => foundation.cards.length === 13);
+}
+
+/**
+ * Klondike: build down in alternating colours, Kings to empty columns,
+ * foundations up by suit from the Ace; `decks` and `tableauColumns` give
+ * double-deck and easier or harder games
+ */
+export const klondike: RuleSet = {
+  variant: 'klondike',
+  name: 'Klondike',
+  layout: config => ({
+    foundations: 4 * config.decks,
+    tableau: config.tableauColumns,
+    cells: 0,
+    stock: true,
+    waste: true,
+  }),
+  createDeck: config => createDeck(config.decks),
+  validateConfig: validateKlondikeConfig,
+  deal: dealKlondike,
+  canPlaceOnFoundation: (card, foundation) => canPlaceOnFoundation(card, foundation),
+  canPlaceOnTableau: (card, tableau) => canPlaceOnTableau(card, tableau),
+  canPickUpCards: (pile, fromIndex) => canPickUpCards(pile, fromIndex),
+  checkWinCondition: allOnFoundations,
+};
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { createCard } from '../deck';
+import { createInitialState, executeMove, autoMoveToFoundation } from '../game';
+import { isValidMove, isCovered } from '../rules';
+import { deserializeGame, serializeGame } from '../save';
+import { pyramid } from './pyramid';
+import type { GameState } from '../types';
+
+/**
+ * Index of a pyramid card from its row and position in the row
+ */
+function slot(row: number, i: number): number {
+  return (row * (row + 1)) / 2 + i;
+}
+
+/**
+ * A Pyramid game with only the given cards left in the pyramid
+ */
+function pyramidWith(cards: Record<number, ReturnType<typeof createCard>>): GameState {
+  const state = createInitialState({ variant: 'pyramid' }, 1);
+  state.tableau.forEach((t, i) => (t.cards = cards[i] ? [cards[i]] : []));
+  return state;
+}
+
+describe('pyramid', () => {
+  it('deals a 28-card pyramid with the rest in the stock', () => {
+    const state = createInitialState({ variant: 'pyramid' }, 1);
+
+    expect(state.tableau).toHaveLength(28);
+    expect(state.tableau.every(t => t.cards.length === 1 && t.cards[0].faceUp)).toBe(true);
+    expect(state.stock.cards).toHaveLength(24);
+    expect(state.foundations).toHaveLength(1);
+  });
+
+  it('lays the rows out so each card is covered by the two below it', () => {
+    const grid = pyramid.layout(createInitialState({ variant: 'pyramid' }).config).grid!;
+
+    expect(grid[0]).toEqual({ row: 0, column: 6, coveredBy: [1, 2] });
+    expect(grid[slot(3, 1)].coveredBy).toEqual([slot(4, 1), slot(4, 2)]);
+    expect(grid[slot(6, 0)]).toEqual({ row: 6, column: 0, coveredBy: [] });
+  });
+
+  it('only exposes cards once both cards below are gone', () => {
+    const state = createInitialState({ variant: 'pyramid' }, 1);
+    expect(isCovered(state, slot(5, 2))).toBe(true);
+
+    state.tableau[slot(6, 2)].cards = [];
+    expect(isCovered(state, slot(5, 2))).toBe(true);
+
+    state.tableau[slot(6, 3)].cards = [];
+    expect(isCovered(state, slot(5, 2))).toBe(false);
+  });
+
+  it('discards exposed pairs adding up to 13', () => {
+    const state = pyramidWith({
+      [slot(6, 0)]: createCard('hearts', 6, true),
+      [slot(6, 1)]: createCard('spades', 7, true),
+      [slot(6, 2)]: createCard('clubs', 8, true),
+    });
+    const from = { pileType: 'tableau' as const, pileIndex: slot(6, 0), cardIndex: 0 };
+
+    expect(isValidMove(state, from, { pileType: 'tableau', pileIndex: slot(6, 2), cardIndex: 1 }, 1)).toBe(false);
+
+    const result = executeMove(state, from, { pileType: 'tableau', pileIndex: slot(6, 1), cardIndex: 1 }, 1);
+    expect(result.success).toBe(true);
+    expect(result.state!.tableau[slot(6, 0)].cards).toHaveLength(0);
+    expect(result.state!.tableau[slot(6, 1)].cards).toHaveLength(0);
+    expect(result.state!.foundations[0].cards.map(c => c.rank)).toEqual([7, 6]);
+  });
+
+  it('pairs the waste card with a pyramid card', () => {
+    const state = pyramidWith({ [slot(6, 4)]: createCard('hearts', 12, true) });
+    state.waste.cards = [createCard('spades', 1, true)];
+
+    const result = executeMove(
+      state,
+      { pileType: 'waste', pileIndex: 0, cardIndex: 0 },
+      { pileType: 'tableau', pileIndex: slot(6, 4), cardIndex: 1 },
+      1
+    );
+    expect(result.success).toBe(true);
+    expect(result.state!.isWon).toBe(true);
+  });
+
+  it('does not pair with a covered card', () => {
+    const state = pyramidWith({
+      [slot(5, 0)]: createCard('hearts', 10, true),
+      [slot(6, 0)]: createCard('spades', 3, true),
+    });
+
+    expect(isValidMove(
+      state,
+      { pileType: 'tableau', pileIndex: slot(6, 0), cardIndex: 0 },
+      { pileType: 'tableau', pileIndex: slot(5, 0), cardIndex: 1 },
+      1
+    )).toBe(false);
+  });
+
+  it('discards Kings on their own', () => {
+    const state = pyramidWith({
+      [slot(6, 0)]: createCard('hearts', 13, true),
+      [slot(6, 1)]: createCard('spades', 5, true),
+    });
+
+    const result = autoMoveToFoundation(state, { pileType: 'tableau', pileIndex: slot(6, 0), cardIndex: 0 });
+    expect(result.success).toBe(true);
+    expect(result.state!.foundations[0].cards.map(c => c.rank)).toEqual([13]);
+  });
+
+  it('loads games with discards in any order', () => {
+    const state = createInitialState({ variant: 'pyramid' }, 7);
+    state.foundations[0].cards = [
+      ...state.tableau[slot(6, 0)].cards.splice(0),
+      ...state.tableau[slot(6, 1)].cards.splice(0),
+    ];
+    const loaded = deserializeGame(serializeGame(state));
+
+    expect(loaded.success).toBe(true);
+    expect(loaded.state!.foundations[0].cards).toEqual(state.foundations[0].cards);
+  });
+});
@@ -0,0 +1,73 @@
+import type { Card, GameState, RuleSet } from '../types';
+import { flipCard } from '../deck';
+import { isCovered } from '../rules';
+import { createGrid, isExposed, isTableauCleared } from './grid';
+
+/**
+ * Seven rows of 1 to 7 cards, each half overlapping the two cards below it
+ */
+const PYRAMID_GRID = createGrid(
+  Array.from({ length: 7 }, (_, row) =>
+    Array.from({ length: row + 1 }, (_, i): [number, number] => [row, 6 - row + i * 2])
+  ).flat()
+);
+
+/**
+ * Deal 28 face-up cards into the pyramid, with the remaining 24 in the stock
+ */
+function dealPyramid(deck: Card[]) {
+  return {
+    tableau: deck.slice(0, 28).map(card => [flipCard(card, true)]),
+    stock: deck.slice(28),
+  };
+}
+
+/**
+ * Discard every pair that has just been made on a pyramid card
+ */
+function removePairs(state: GameState): number {
+  let removed = 0;
+
+  for (const tableau of state.tableau) {
+    if (tableau.cards.length === 2) {
+      state.foundations[0].cards.push(...tableau.cards.splice(0));
+      removed++;
+    }
+  }
+
+  return removed;
+}
+
+/**
+ * Pyramid: discard exposed cards in pairs adding up to 13 (Jack 11, Queen 12)
+ * and Kings on their own; a pair is made by dropping a card from the pyramid
+ * or the waste onto an exposed pyramid card. Cleared when the pyramid is gone.
+ */
+export const pyramid: RuleSet = {
+  variant: 'pyramid',
+  name: 'Pyramid',
+  layout: () => ({ foundations: 1, tableau: 28, cells: 0, stock: true, waste: true, grid: PYRAMID_GRID }),
+  deal: dealPyramid,
+  removeCompletedRuns: removePairs,
+  // The foundation is a discard pile, in the order cards were removed
+  isValidFoundation: () => true,
+  canPlaceOnFoundation: card => card.rank === 13,
+  canPlaceOnTableau: (card, tableau, state) => {
+    const topCard = tableau.cards.at(-1);
+    return (
+      tableau.cards.length === 1 &&
+      !isCovered(state, tableau.tableauIndex!) &&
+      card.rank + topCard!.rank === 13
+    );
+  },
+  canPickUpCards: (pile, fromIndex, state) => {
+    if (pile.type === 'waste') {
+      return pile.cards.length > 0 && fromIndex === pile.cards.length - 1;
+    }
+    return isExposed(pile, fromIndex, state);
+  },
+  checkWinCondition: isTableauCleared,
+  canAutoComplete: () => false,
+  // Kings are discarded by choice, not played up
+  autoPlay: false,
+};
@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import { createCard } from '../deck';
+import { validateConfig, createInitialState, drawFromStock, executeMove, canDrawFromStock } from '../game';
+import { isValidMove } from '../rules';
+import { getHints } from '../hints';
+import type { Card, GameConfig, GameState, Rank, Suit } from '../types';
+
+/**
+ * Face-up cards from a high rank down to a low rank in one suit
+ */
+function run(suit: Suit, from: number, to: number): Card[] {
+  const cards: Card[] = [];
+  for (let rank = from; rank >= to; rank--) {
+    cards.push(createCard(suit, rank as Rank, true));
+  }
+  return cards;
+}
+
+/**
+ * A Spider game with every pile emptied
+ */
+function emptySpider(): GameState {
+  const state = createInitialState({ variant: 'spider' }, 1);
+  state.stock.cards = [];
+  state.tableau.forEach(t => (t.cards = []));
+  return state;
+}
+
+describe('spider', () => {
+  it('deals ten columns and a 50-card stock', () => {
+    const state = createInitialState({ variant: 'spider' }, 1);
+
+    expect(state.tableau.map(t => t.cards.length)).toEqual([6, 6, 6, 6, 5, 5, 5, 5, 5, 5]);
+    expect(state.tableau.every(t => t.cards.at(-1)!.faceUp)).toBe(true);
+    expect(state.tableau.flatMap(t => t.cards).filter(c => c.faceUp)).toHaveLength(10);
+    expect(state.stock.cards).toHaveLength(50);
+    expect(state.foundations).toHaveLength(8);
+    expect(state.score).toBe(500);
+  });
+
+  it('gives every copy of a card its own ID', () => {
+    const state = createInitialState({ variant: 'spider', spiderSuits: 4 }, 1);
+    const cards = [...state.stock.cards, ...state.tableau.flatMap(t => t.cards)];
+
+    expect(new Set(cards.map(c => c.id)).size).toBe(104);
+  });
+
+  it.each([
+    [1, ['spades']],
+    [2, ['hearts', 'spades']],
+    [4, ['clubs', 'diamonds', 'hearts', 'spades']],
+  ] as const)('uses %i suit(s)', (spiderSuits, suits) => {
+    const state = createInitialState({ variant: 'spider', spiderSuits }, 1);
+    const cards = [...state.stock.cards, ...state.tableau.flatMap(t => t.cards)];
+
+    expect([...new Set(cards.map(c => c.suit))].sort()).toEqual(suits);
+    expect(cards.filter(c => c.suit === 'spades')).toHaveLength(104 / suits.length);
+  });
+
+  it('rejects suit counts it cannot deal', () => {
+    const config = { variant: 'spider', spiderSuits: 3 } as unknown as Partial<GameConfig>;
+    expect(validateConfig(config)).toBe('Invalid number of Spider suits: 3 (use 1, 2 or 4)');
+    expect(() => createInitialState(config, 1)).toThrow('Invalid number of Spider suits');
+  });
+
+  it('builds down regardless of suit but only moves suited runs', () => {
+    const state = emptySpider();
+    state.tableau[0].cards = [createCard('spades', 9, true)];
+    state.tableau[1].cards = [createCard('hearts', 8, true), createCard('spades', 7, true)];
+    state.tableau[2].cards = run('clubs', 8, 6);
+
+    const to = { pileType: 'tableau' as const, pileIndex: 0, cardIndex: 1 };
+    // Mixed-suit stack can't be picked up
+    expect(isValidMove(state, { pileType: 'tableau', pileIndex: 1, cardIndex: 0 }, to, 2)).toBe(false);
+    // A suited run onto a card of another suit
+    expect(isValidMove(state, { pileType: 'tableau', pileIndex: 2, cardIndex: 0 }, to, 3)).toBe(true);
+    // Any card to an empty column
+    expect(isValidMove(
+      state,
+      { pileType: 'tableau', pileIndex: 1, cardIndex: 1 },
+      { pileType: 'tableau', pileIndex: 3, cardIndex: 0 },
+      1
+    )).toBe(true);
+  });
+
+  it('deals a row onto every column', () => {
+    const state = createInitialState({ variant: 'spider' }, 1);
+    const dealt = drawFromStock(state);
+
+    expect(dealt.stock.cards).toHaveLength(40);
+    expect(dealt.waste.cards).toHaveLength(0);
+    dealt.tableau.forEach((t, i) => {
+      expect(t.cards).toHaveLength(state.tableau[i].cards.length + 1);
+      expect(t.cards.at(-1)!.faceUp).toBe(true);
+    });
+    expect(dealt.score).toBe(499);
+  });
+
+  it('does not deal while a column is empty', () => {
+    const state = createInitialState({ variant: 'spider' }, 1);
+    state.tableau[3].cards = [];
+
+    expect(canDrawFromStock(state)).toBe(false);
+    expect(drawFromStock(state)).toBe(state);
+    expect(getHints(state).some(h => h.action.type === 'DRAW_FROM_STOCK')).toBe(false);
+  });
+
+  it('turns up the card a move uncovers, with the default config', () => {
+    const state = emptySpider();
+    state.tableau[0].cards = [createCard('hearts', 4, false), createCard('spades', 7, true)];
+    state.tableau[1].cards = [createCard('clubs', 8, true)];
+
+    const result = executeMove(
+      state,
+      { pileType: 'tableau', pileIndex: 0, cardIndex: 1 },
+      { pileType: 'tableau', pileIndex: 1, cardIndex: 1 },
+      1
+    );
+
+    expect(state.config.autoFlipTableau).toBe(false);
+    expect(result.move!.flippedCard).toBe(true);
+    expect(result.state!.tableau[0].cards[0].faceUp).toBe(true);
+  });
+
+  it('removes a completed King-to-Ace run', () => {
+    const state = emptySpider();
+    state.tableau[0].cards = [createCard('hearts', 4, false), ...run('spades', 13, 2)];
+    state.tableau[1].cards = [createCard('spades', 1, true)];
+
+    const result = executeMove(
+      state,
+      { pileType: 'tableau', pileIndex: 1, cardIndex: 0 },
+      { pileType: 'tableau', pileIndex: 0, cardIndex: 13 },
+      1
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.move!.completedRuns).toBe(1);
+    expect(result.state!.tableau[0].cards).toHaveLength(1);
+    // The card under the run turns up, with the default config
+    expect(state.config.autoFlipTableau).toBe(false);
+    expect(result.state!.tableau[0].cards[0].faceUp).toBe(true);
+    expect(result.state!.foundations[0].cards.map(c => c.rank)).toEqual(
+      Array.from({ length: 13 }, (_, i) => i + 1)
+    );
+    expect(result.state!.score).toBe(500 - 1 + 100);
+  });
+
+  it('is won when all eight runs are removed', () => {
+    const state = emptySpider();
+    state.foundations.slice(0, 7).forEach(f => (f.cards = run('spades', 13, 1).reverse()));
+    state.tableau[0].cards = run('spades', 13, 2);
+    state.tableau[1].cards = [createCard('spades', 1, true)];
+
+    const result = executeMove(
+      state,
+      { pileType: 'tableau', pileIndex: 1, cardIndex: 0 },
+      { pileType: 'tableau', pileIndex: 0, cardIndex: 12 },
+      1
+    );
+
+    expect(result.state!.isWon).toBe(true);
+  });
+});
@@ -0,0 +1,147 @@
+import type { Card, Pile, Suit, GameConfig, GameState, RuleSet } from '../types';
+import { RANKS, createCard, flipCard } from '../deck';
+
+/**
+ * Suits used for each Spider difficulty
+ */
+const SPIDER_SUITS: Record<GameConfig['spiderSuits'], Suit[]> = {
+  1: ['spades'],
+  2: ['spades', 'hearts'],
+  4: ['spades', 'hearts', 'clubs', 'diamonds'],
+};
+
+/**
+ * Check the config names a Spider difficulty
+ */
+function validateSpiderConfig(config: GameConfig): string | null {
+  if (!Object.prototype.hasOwnProperty.call(SPIDER_SUITS, config.spiderSuits)) {
+    return `Invalid number of Spider suits: ${config.spiderSuits} (use 1, 2 or 4)`;
+  }
+  return null;
+}
+
+/**
+ * Build 104 cards from the configured suits (eight runs of Ace to King)
+ * Each copy of a card gets its own ID
+ */
+function createSpiderDeck(config: GameConfig): Card[] {
+  const suits = SPIDER_SUITS[config.spiderSuits];
+  const copies = 8 / suits.length;
+  const cards: Card[] = [];
+
+  for (let copy = 0; copy < copies; copy++) {
+    for (const suit of suits) {
+      for (const rank of RANKS) {
+        cards.push(createCard(suit, rank, false, copy));
+      }
+    }
+  }
+
+  return cards;
+}
+
+/**
+ * Deal 54 cards to ten columns (six to the first four, five to the rest),
+ * top cards face up, with the remaining 50 in the stock
+ */
+function dealSpider(deck: Card[]) {
+  const tableau: Card[][] = Array.from({ length: 10 }, () => []);
+
+  let cardIndex = 0;
+  tableau.forEach((column, col) => {
+    const height = col < 4 ? 6 : 5;
+    for (let row = 0; row < height; row++) {
+      column.push(flipCard(deck[cardIndex++], row === height - 1));
+    }
+  });
+
+  return { tableau, stock: deck.slice(cardIndex) };
+}
+
+/**
+ * Deal one card from the stock onto every column
+ */
+function dealRow(state: GameState): void {
+  for (const tableau of state.tableau) {
+    const card = state.stock.cards.pop();
+    if (!card) break;
+    tableau.cards.push(flipCard(card, true));
+  }
+}
+
+/**
+ * Whether cards from an index form a face-up run down in one suit
+ */
+function isSuitedRun(pile: Pile, fromIndex: number): boolean {
+  for (let i = fromIndex; i < pile.cards.length; i++) {
+    const card = pile.cards[i];
+    if (!card.faceUp) {
+      return false;
+    }
+    const next = pile.cards[i + 1];
+    if (next && (next.suit !== card.suit || next.rank !== card.rank - 1)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Move every complete King-to-Ace run to an empty foundation
+ * Runs are stored Ace first, like a built-up foundation
+ */
+function removeCompletedRuns(state: GameState): number {
+  let removed = 0;
+
+  for (const tableau of state.tableau) {
+    const start = tableau.cards.length - 13;
+    if (start < 0 || tableau.cards[start].rank !== 13 || !isSuitedRun(tableau, start)) {
+      continue;
+    }
+
+    const foundation = state.foundations.find(f => f.cards.length === 0);
+    if (!foundation) break;
+
+    foundation.cards = tableau.cards.splice(start).reverse();
+    removed++;
+
+    const topCard = tableau.cards.at(-1);
+    if (topCard && !topCard.faceUp) {
+      tableau.cards[tableau.cards.length - 1] = flipCard(topCard, true);
+    }
+  }
+
+  return removed;
+}
+
+/**
+ * Spider: build down regardless of suit, but only move runs of one suit;
+ * complete King-to-Ace runs leave the table, and the stock deals a row onto
+ * every column
+ */
+export const spider: RuleSet = {
+  variant: 'spider',
+  name: 'Spider',
+  layout: () => ({ foundations: 8, tableau: 10, cells: 0, stock: true, waste: false }),
+  createDeck: createSpiderDeck,
+  validateConfig: validateSpiderConfig,
+  deal: dealSpider,
+  // A row can't be dealt while any column is empty
+  canDrawFromStock: state => state.tableau.every(t => t.cards.length > 0),
+  drawFromStock: dealRow,
+  removeCompletedRuns,
+  autoFlipTableau: true,
+  // Cards only reach the foundations as complete runs
+  canPlaceOnFoundation: () => false,
+  canPlaceOnTableau: (card, tableau) => {
+    const topCard = tableau.cards.at(-1);
+    if (!topCard) {
+      return true;
+    }
+    return topCard.faceUp && card.rank === topCard.rank - 1;
+  },
+  canPickUpCards: (pile, fromIndex) => pile.type === 'tableau' && isSuitedRun(pile, fromIndex),
+  checkWinCondition: state => state.foundations.every(f => f.cards.length === 13),
+  // Runs only leave the table once complete, so there is nothing to auto-play
+  canAutoComplete: () => false,
+};
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { createCard } from '../deck';
+import { createInitialState, drawFromStock, executeMove, flipTableauCard } from '../game';
+import { isValidMove } from '../rules';
+import { tripeaks } from './tripeaks';
+import type { GameState, Rank } from '../types';
+
+/**
+ * Play a tableau card onto the foundation
+ */
+function playToFoundation(state: GameState, pileIndex: number) {
+  return executeMove(
+    state,
+    { pileType: 'tableau', pileIndex, cardIndex: state.tableau[pileIndex].cards.length - 1 },
+    { pileType: 'foundation', pileIndex: 0, cardIndex: state.foundations[0].cards.length },
+    1
+  );
+}
+
+describe('tripeaks', () => {
+  it('deals three peaks with only the base row face up', () => {
+    const state = createInitialState({ variant: 'tripeaks' }, 1);
+
+    expect(state.tableau).toHaveLength(28);
+    expect(state.tableau.map(t => t.cards[0].faceUp)).toEqual([
+      ...Array(18).fill(false),
+      ...Array(10).fill(true),
+    ]);
+    expect(state.foundations[0].cards).toHaveLength(1);
+    expect(state.stock.cards).toHaveLength(23);
+  });
+
+  it('overlaps each peak card with two cards of the row below', () => {
+    const grid = tripeaks.layout(createInitialState({ variant: 'tripeaks' }).config).grid!;
+
+    expect(grid[0].coveredBy).toEqual([3, 4]);
+    expect(grid[2].coveredBy).toEqual([7, 8]);
+    expect(grid[9].coveredBy).toEqual([18, 19]);
+    expect(grid[27].coveredBy).toEqual([]);
+  });
+
+  it('plays cards one rank up or down, turning the corner at King and Ace', () => {
+    const state = createInitialState({ variant: 'tripeaks', autoFlipTableau: true }, 1);
+    state.foundations[0].cards = [createCard('hearts', 13, true)];
+    state.tableau[18].cards = [createCard('spades', 1, true)];
+    state.tableau[19].cards = [createCard('clubs', 3, true)];
+
+    expect(isValidMove(
+      state,
+      { pileType: 'tableau', pileIndex: 19, cardIndex: 0 },
+      { pileType: 'foundation', pileIndex: 0, cardIndex: 1 },
+      1
+    )).toBe(false);
+
+    const result = playToFoundation(state, 18);
+    expect(result.success).toBe(true);
+    expect(playToFoundation(result.state!, 19).success).toBe(false);
+  });
+
+  it.each([
+    ['by default', {}],
+    ['with autoFlipTableau', { autoFlipTableau: true }],
+  ])('turns up cards once they are uncovered %s', (_, config) => {
+    const state = createInitialState({ variant: 'tripeaks', ...config }, 1);
+    state.foundations[0].cards = [createCard('hearts', 5, true)];
+    state.tableau[18].cards = [createCard('spades', 4, true)];
+    state.tableau[19].cards = [createCard('clubs', 3, true)];
+
+    const first = playToFoundation(state, 18);
+    expect(first.state!.tableau[9].cards[0].faceUp).toBe(false);
+
+    const second = playToFoundation(first.state!, 19);
+    expect(second.success).toBe(true);
+    expect(second.move!.flippedCard).toBe(true);
+    expect(second.state!.tableau[9].cards[0].faceUp).toBe(true);
+  });
+
+  it('will not flip a covered card by hand', () => {
+    const state = createInitialState({ variant: 'tripeaks' }, 1);
+
+    expect(flipTableauCard(state, 9).error).toBe('Card is covered');
+  });
+
+  it('turns stock cards onto the foundation', () => {
+    const state = createInitialState({ variant: 'tripeaks' }, 1);
+    const next = drawFromStock(state);
+
+    expect(next.stock.cards).toHaveLength(22);
+    expect(next.waste.cards).toHaveLength(0);
+    expect(next.foundations[0].cards.at(-1)).toEqual({ ...state.stock.cards.at(-1)!, faceUp: true });
+  });
+
+  it('is won once the peaks are cleared', () => {
+    const state = createInitialState({ variant: 'tripeaks' }, 1);
+    state.tableau.forEach(t => (t.cards = []));
+    state.tableau[27].cards = [createCard('spades', 2, true)];
+    state.foundations[0].cards = [createCard('hearts', 3, true)];
+
+    expect(playToFoundation(state, 27).state!.isWon).toBe(true);
+  });
+});
+
+describe('golf', () => {
+  it('deals seven face-up columns of five', () => {
+    const state = createInitialState({ variant: 'golf' }, 1);
+
+    expect(state.tableau.map(t => t.cards.length)).toEqual([5, 5, 5, 5, 5, 5, 5]);
+    expect(state.tableau.every(t => t.cards.every(c => c.faceUp))).toBe(true);
+    expect(state.foundations[0].cards).toHaveLength(1);
+    expect(state.stock.cards).toHaveLength(16);
+  });
+
+  it('does not turn the corner and plays nothing on a King', () => {
+    const state = createInitialState({ variant: 'golf' }, 1);
+    state.tableau[0].cards = [createCard('spades', 1, true)];
+    state.tableau[1].cards = [createCard('spades', 12, true)];
+
+    state.foundations[0].cards = [createCard('hearts', 13, true)];
+    expect(playToFoundation(state, 0).success).toBe(false);
+    expect(playToFoundation(state, 1).success).toBe(false);
+
+    state.foundations[0].cards = [createCard('hearts', 2 as Rank, true)];
+    expect(playToFoundation(state, 0).success).toBe(true);
+  });
+});
@@ -0,0 +1,106 @@
+import type { Card, Pile, GameState, RuleSet } from '../types';
+import { flipCard } from '../deck';
+import { createGrid, isExposed, isTableauCleared } from './grid';
+
+/**
+ * Three peaks of 3 rows over a shared base row of ten cards
+ */
+const TRIPEAKS_GRID = createGrid([
+  ...[0, 1, 2].map((peak): [number, number] => [0, 3 + peak * 6]),
+  ...[0, 1, 2].flatMap((peak): Array<[number, number]> => [[1, 2 + peak * 6], [1, 4 + peak * 6]]),
+  ...Array.from({ length: 9 }, (_, i): [number, number] => [2, 1 + i * 2]),
+  ...Array.from({ length: 10 }, (_, i): [number, number] => [3, i * 2]),
+]);
+
+/**
+ * Turn the top stock card onto the foundation
+ */
+function turnStockCard(state: GameState): void {
+  const card = state.stock.cards.pop();
+  if (card) {
+    state.foundations[0].cards.push(flipCard(card, true));
+  }
+}
+
+/**
+ * Whether a card is one rank above or below the foundation's top card,
+ * optionally counting King and Ace as neighbours
+ */
+function isNextInRun(card: Card, foundation: Pile, wrap: boolean): boolean {
+  const topCard = foundation.cards.at(-1);
+  if (!topCard) {
+    return false;
+  }
+  const difference = Math.abs(card.rank - topCard.rank);
+  return difference === 1 || (wrap && difference === 12);
+}
+
+/**
+ * Deal the peaks (only the base row face up), one card to start the
+ * foundation and the remaining 23 to the stock
+ */
+function dealTriPeaks(deck: Card[]) {
+  return {
+    tableau: deck.slice(0, 28).map((card, i) => [flipCard(card, i >= 18)]),
+    foundations: [[flipCard(deck[28], true)]],
+    stock: deck.slice(29),
+  };
+}
+
+/**
+ * Deal seven face-up columns of five, one card to start the foundation and
+ * the remaining 16 to the stock
+ */
+function dealGolf(deck: Card[]) {
+  return {
+    tableau: Array.from({ length: 7 }, (_, col) =>
+      deck.slice(col * 5, col * 5 + 5).map(card => flipCard(card, true))
+    ),
+    foundations: [[flipCard(deck[35], true)]],
+    stock: deck.slice(36),
+  };
+}
+
+/**
+ * TriPeaks: play exposed cards onto the foundation one rank up or down,
+ * turning around the corner from King to Ace, or turn a stock card onto it
+ * when stuck; covered cards turn up once uncovered. Won by clearing all
+ * three peaks.
+ */
+export const tripeaks: RuleSet = {
+  variant: 'tripeaks',
+  name: 'TriPeaks',
+  layout: () => ({ foundations: 1, tableau: 28, cells: 0, stock: true, waste: false, grid: TRIPEAKS_GRID }),
+  deal: dealTriPeaks,
+  drawFromStock: turnStockCard,
+  // The foundation is a single run that the stock can restart at any rank
+  isValidFoundation: () => true,
+  canPlaceOnFoundation: (card, foundation) => isNextInRun(card, foundation, true),
+  canPlaceOnTableau: () => false,
+  canPickUpCards: isExposed,
+  checkWinCondition: isTableauCleared,
+  canAutoComplete: () => false,
+  autoPlay: false,
+};
+
+/**
+ * Golf: play the top card of any column onto the foundation one rank up or
+ * down (nothing goes on a King), or turn a stock card onto it when stuck.
+ * Won by clearing every column.
+ */
+export const golf: RuleSet = {
+  variant: 'golf',
+  name: 'Golf',
+  layout: () => ({ foundations: 1, tableau: 7, cells: 0, stock: true, waste: false }),
+  deal: dealGolf,
+  drawFromStock: turnStockCard,
+  isValidFoundation: () => true,
+  canPlaceOnFoundation: (card, foundation) =>
+    foundation.cards.at(-1)?.rank !== 13 && isNextInRun(card, foundation, false),
+  canPlaceOnTableau: () => false,
+  canPickUpCards: (pile, fromIndex) =>
+    pile.type === 'tableau' && pile.cards.length > 0 && fromIndex === pile.cards.length - 1,
+  checkWinCondition: isTableauCleared,
+  canAutoComplete: () => false,
+  autoPlay: false,
+};
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { createCard } from '../deck';
+import { createInitialState, executeMove } from '../game';
+import { isValidMove, canAutoComplete } from '../rules';
+import type { GameState } from '../types';
+
+/**
+ * A game with every column emptied
+ */
+function emptyGame(variant: 'yukon' | 'russian'): GameState {
+  const state = createInitialState({ variant }, 1);
+  state.tableau.forEach(t => (t.cards = []));
+  return state;
+}
+
+describe('yukon', () => {
+  it('deals every card to seven columns with five face up in all but the first', () => {
+    const state = createInitialState({ variant: 'yukon' }, 1);
+
+    expect(state.tableau.map(t => t.cards.length)).toEqual([1, 6, 7, 8, 9, 10, 11]);
+    expect(state.tableau.map(t => t.cards.filter(c => c.faceUp).length)).toEqual([1, 5, 5, 5, 5, 5, 5]);
+    expect(state.tableau.every(t => t.cards.at(-1)!.faceUp)).toBe(true);
+    expect(state.stock.cards).toHaveLength(0);
+  });
+
+  it('moves any face-up group, checking only its base card', () => {
+    const state = emptyGame('yukon');
+    state.tableau[0].cards = [
+      createCard('clubs', 4, false),
+      createCard('hearts', 9, true),
+      createCard('spades', 2, true),
+      createCard('diamonds', 12, true),
+    ];
+    state.tableau[1].cards = [createCard('spades', 10, true)];
+
+    const result = executeMove(
+      state,
+      { pileType: 'tableau', pileIndex: 0, cardIndex: 1 },
+      { pileType: 'tableau', pileIndex: 1, cardIndex: 1 },
+      3
+    );
+    expect(result.success).toBe(true);
+    expect(result.state!.tableau[1].cards.map(c => c.rank)).toEqual([10, 9, 2, 12]);
+
+    // Face-down cards can't be picked up
+    expect(isValidMove(
+      state,
+      { pileType: 'tableau', pileIndex: 0, cardIndex: 0 },
+      { pileType: 'tableau', pileIndex: 2, cardIndex: 0 },
+      4
+    )).toBe(false);
+  });
+
+  it('builds down in alternating colours with Kings to empty columns', () => {
+    const state = emptyGame('yukon');
+    state.tableau[0].cards = [createCard('hearts', 9, true)];
+    state.tableau[1].cards = [createCard('diamonds', 10, true)];
+    state.tableau[2].cards = [createCard('clubs', 13, true), createCard('spades', 3, true)];
+
+    const nine = { pileType: 'tableau' as const, pileIndex: 0, cardIndex: 0 };
+    expect(isValidMove(state, nine, { pileType: 'tableau', pileIndex: 1, cardIndex: 1 }, 1)).toBe(false);
+    expect(isValidMove(state, nine, { pileType: 'tableau', pileIndex: 3, cardIndex: 0 }, 1)).toBe(false);
+    expect(isValidMove(
+      state,
+      { pileType: 'tableau', pileIndex: 2, cardIndex: 0 },
+      { pileType: 'tableau', pileIndex: 3, cardIndex: 0 },
+      2
+    )).toBe(true);
+  });
+
+  it('auto-completes only once every column runs down in rank', () => {
+    const state = emptyGame('yukon');
+    state.tableau[0].cards = [createCard('hearts', 3, true), createCard('spades', 1, true)];
+    state.tableau[1].cards = [createCard('hearts', 1, true), createCard('hearts', 2, true)];
+
+    expect(canAutoComplete(state)).toBe(false);
+
+    state.tableau[1].cards.reverse();
+    expect(canAutoComplete(state)).toBe(true);
+  });
+});
+
+describe('russian', () => {
+  it('builds down in suit', () => {
+    const state = emptyGame('russian');
+    state.tableau[0].cards = [createCard('hearts', 9, true), createCard('clubs', 5, true)];
+    state.tableau[1].cards = [createCard('hearts', 10, true)];
+    state.tableau[2].cards = [createCard('spades', 10, true)];
+
+    const from = { pileType: 'tableau' as const, pileIndex: 0, cardIndex: 0 };
+    expect(isValidMove(state, from, { pileType: 'tableau', pileIndex: 2, cardIndex: 1 }, 2)).toBe(false);
+    expect(isValidMove(state, from, { pileType: 'tableau', pileIndex: 1, cardIndex: 1 }, 2)).toBe(true);
+  });
+});
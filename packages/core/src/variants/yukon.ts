@@ -0,0 +1,83 @@
+import type { Card, Pile, GameState, RuleSet } from '../types';
+import { flipCard } from '../deck';
+import { canPlaceOnFoundation, canPlaceOnTableau } from '../rules';
+
+/**
+ * Deal all 52 cards to seven columns: one face-up card in the first, then
+ * 1 to 6 face-down cards under five face-up cards in the rest
+ */
+function dealYukon(deck: Card[]) {
+  const tableau: Card[][] = Array.from({ length: 7 }, () => []);
+
+  let cardIndex = 0;
+  tableau.forEach((column, col) => {
+    const height = col === 0 ? 1 : col + 5;
+    for (let row = 0; row < height; row++) {
+      column.push(flipCard(deck[cardIndex++], row >= col));
+    }
+  });
+
+  return { tableau, stock: [] };
+}
+
+/**
+ * Whether a card can go on a tableau pile one rank lower in the same suit,
+ * with Kings to empty columns
+ */
+function canPlaceInSuit(card: Card, tableau: Pile): boolean {
+  const topCard = tableau.cards.at(-1);
+  if (!topCard) {
+    return card.rank === 13;
+  }
+  return topCard.faceUp && card.suit === topCard.suit && card.rank === topCard.rank - 1;
+}
+
+/**
+ * Whether every card is face up and each column runs down in rank, so the
+ * rest plays out to the foundations from the top of the columns
+ */
+function isSorted(state: GameState): boolean {
+  return state.tableau.every(t =>
+    t.cards.every((card, i) => card.faceUp && (i === 0 || card.rank < t.cards[i - 1].rank))
+  );
+}
+
+/**
+ * Whether every card is on the foundations
+ */
+function allOnFoundations(state: GameState): boolean {
+  return state.foundations.every(f => f.cards.length === 13);
+}
+
+/**
+ * Yukon: no stock; any face-up card can be moved with every card on top of
+ * it, whether or not they are in sequence, as long as the card itself goes
+ * down in alternating colours (Kings to empty columns)
+ */
+export const yukon: RuleSet = {
+  variant: 'yukon',
+  name: 'Yukon',
+  layout: () => ({ foundations: 4, tableau: 7, cells: 0, stock: false, waste: false }),
+  deal: dealYukon,
+  canPlaceOnFoundation: (card, foundation) => canPlaceOnFoundation(card, foundation),
+  // Only the base card of a moved group is checked
+  canPlaceOnTableau: (card, tableau) => canPlaceOnTableau(card, tableau),
+  canPickUpCards: (pile, fromIndex) => {
+    if (pile.type === 'foundation') {
+      return fromIndex === pile.cards.length - 1;
+    }
+    return pile.type === 'tableau' && pile.cards[fromIndex]?.faceUp === true;
+  },
+  checkWinCondition: allOnFoundations,
+  canAutoComplete: isSorted,
+};
+
+/**
+ * Russian Solitaire: Yukon, building down in suit
+ */
+export const russian: RuleSet = {
+  ...yukon,
+  variant: 'russian',
+  name: 'Russian Solitaire',
+  canPlaceOnTableau: (card, tableau) => canPlaceInSuit(card, tableau),
+};
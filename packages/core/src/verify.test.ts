@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import { createInitialState, applyAction } from './game';
+import { solve } from './solver';
+import { createReplayLog, recordAction, replay } from './replay';
+import { STANDARD_PROFILE, calculateTimeBonus } from './scoring';
+import { verifyGame } from './verify';
+import type { GameConfig, PlayAction, RecordedAction, ReplayLog, ScoringProfile } from './types';
+
+/**
+ * Convert a solver action to the action the UI would dispatch
+ */
+function toRecorded(action: PlayAction): RecordedAction {
+  switch (action.type) {
+    case 'DRAW_FROM_STOCK':
+      return { type: 'DRAW' };
+    case 'RESET_STOCK':
+      return { type: 'RESET_STOCK' };
+    case 'FLIP_CARD':
+      return { type: 'FLIP_CARD', tableauIndex: action.tableauIndex };
+    case 'MOVE_CARDS':
+      return { type: 'MOVE', from: action.from, to: action.to, cardCount: action.cardCount };
+  }
+}
+
+/**
+ * Record actions one second apart
+ */
+function buildLog(config: Partial<GameConfig>, seed: number, actions: RecordedAction[]): ReplayLog {
+  return actions.reduce(
+    (log, action, i) => recordAction(log, action, i * 1000),
+    createReplayLog(config, seed)
+  );
+}
+
+describe('verify', () => {
+  const state = createInitialState({}, 3);
+  const solution = solve(state).solution!.map(toRecorded);
+
+  it('verifies a won game', () => {
+    const log = buildLog({}, 3, solution);
+    const result = verifyGame(log);
+    const final = replay(log).at(-1)!;
+
+    expect(result.valid).toBe(true);
+    expect(result.isWon).toBe(true);
+    expect(result.score).toBe(final.score);
+    expect(result.moves).toBe(final.moves);
+    expect(result.time).toBe(solution.length - 1);
+    expect(result.timeBonus).toBe(calculateTimeBonus(solution.length - 1));
+    expect(result.finalScore).toBe(result.score + result.timeBonus);
+  });
+
+  it('scores timed games like the live clock', () => {
+    const log = buildLog({ timedGame: true }, 3, solution);
+    const result = verifyGame(log);
+    const final = replay(log).at(-1)!;
+
+    expect(result.valid).toBe(true);
+    expect(result.score).toBeLessThan(verifyGame(buildLog({}, 3, solution)).score);
+    expect(result.timeBonus).toBe(calculateTimeBonus(solution.length - 1));
+    expect(final.score).toBe(result.finalScore);
+  });
+
+  it('reports an unfinished game as not won', () => {
+    const result = verifyGame(buildLog({}, 3, solution.slice(0, 10)));
+
+    expect(result.valid).toBe(true);
+    expect(result.isWon).toBe(false);
+    expect(result.timeBonus).toBe(0);
+  });
+
+  it('rejects an illegal move', () => {
+    const illegal: RecordedAction = {
+      type: 'MOVE',
+      from: { pileType: 'tableau', pileIndex: 0, cardIndex: 0 },
+      to: { pileType: 'foundation', pileIndex: 0, cardIndex: 0 },
+      cardCount: 1,
+    };
+    // The first column of seed 3 is not an Ace
+    expect(applyAction(state, { type: 'MOVE_CARDS', ...illegal }).success).toBe(false);
+
+    const result = verifyGame(buildLog({}, 3, [{ type: 'DRAW' }, illegal]));
+    expect(result.valid).toBe(false);
+    expect(result.failedAt).toBe(1);
+  });
+
+  it('restores the score on undo', () => {
+    const scoring = solution.findIndex((_, i) => {
+      const result = verifyGame(buildLog({}, 3, solution.slice(0, i + 1)));
+      return result.score > 0;
+    });
+    const before = verifyGame(buildLog({}, 3, solution.slice(0, scoring)));
+    const undone = verifyGame(buildLog({}, 3, [...solution.slice(0, scoring + 1), { type: 'UNDO' }]));
+
+    expect(undone.valid).toBe(true);
+    expect(undone.score).toBe(before.score);
+    expect(undone.moves).toBe(before.moves);
+  });
+
+  it('rejects undo with nothing to undo', () => {
+    const result = verifyGame(buildLog({}, 3, [{ type: 'UNDO' }]));
+    expect(result.valid).toBe(false);
+    expect(result.failedAt).toBe(0);
+  });
+
+  it('tracks the Vegas score and recycle limit', () => {
+    const draws: RecordedAction[] = Array.from({ length: 24 }, () => ({ type: 'DRAW' }));
+    const pass = [...draws, { type: 'RESET_STOCK' } as RecordedAction];
+    const config: Partial<GameConfig> = { scoringMode: 'vegas', unlimitedPasses: false };
+
+    const threePasses = verifyGame(buildLog(config, 3, [...pass, ...pass, ...pass]));
+    expect(threePasses.valid).toBe(true);
+    expect(threePasses.score).toBe(-52);
+
+    const fourPasses = verifyGame(buildLog(config, 3, [...pass, ...pass, ...pass, ...pass]));
+    expect(fourPasses.valid).toBe(false);
+    expect(fourPasses.failedAt).toBe(pass.length * 4 - 1);
+  });
+
+  it('scores custom profiles and undo penalties like a live game', () => {
+    const profile: ScoringProfile = {
+      ...STANDARD_PROFILE,
+      initialScore: 100,
+      recycleWaste: { 'draw-one': -30, 'draw-three': -30 },
+      undo: -10,
+    };
+    const config: Partial<GameConfig> = { scoringProfile: profile, undoMode: 'penalty' };
+    const draws: RecordedAction[] = Array.from({ length: 24 }, () => ({ type: 'DRAW' }));
+    const log = buildLog(config, 3, [...draws, { type: 'RESET_STOCK' }, { type: 'UNDO' }, { type: 'UNDO' }]);
+
+    const result = verifyGame(log, { scoringProfiles: [{ ...profile }] });
+    expect(result.valid).toBe(true);
+    expect(result.score).toBe(80);
+    expect(replay(log).at(-1)!.score).toBe(80);
+  });
+
+  it('rejects tampered logs', () => {
+    const log = buildLog({}, 3, solution.slice(0, 5));
+
+    expect(verifyGame({ ...log, times: [...log.times].reverse() }).valid).toBe(false);
+    expect(verifyGame({ ...log, times: log.times.slice(1) }).valid).toBe(false);
+    expect(verifyGame({ ...log, actions: ['X', ...log.actions.slice(1)] }).failedAt).toBe(0);
+    expect(verifyGame({ ...log, version: 99 }).valid).toBe(false);
+  });
+
+  it('only accepts custom scoring profiles the server trusts', () => {
+    const forged = buildLog({ scoringProfile: { ...STANDARD_PROFILE, initialScore: 1e9 } }, 3, solution);
+
+    expect(verifyGame(forged)).toMatchObject({ valid: false, error: 'Custom scoring profile is not accepted' });
+    expect(verifyGame(forged, { scoringProfiles: [STANDARD_PROFILE] }).valid).toBe(false);
+    expect(verifyGame(buildLog({ scoringProfile: STANDARD_PROFILE }, 3, solution), {
+      scoringProfiles: [STANDARD_PROFILE],
+    }).valid).toBe(true);
+  });
+
+  it('rejects configs that cannot be dealt', () => {
+    const log = buildLog({}, 3, solution.slice(0, 5));
+
+    expect(verifyGame({ ...log, config: { ...log.config, tableauColumns: 40 } })).toMatchObject({
+      valid: false,
+      error: '40 tableau columns need more than one deck',
+    });
+    expect(verifyGame({ ...log, config: { ...log.config, variant: 'nope' as GameConfig['variant'] } })).toMatchObject({
+      valid: false,
+      error: 'Unknown variant: nope',
+    });
+  });
+});
@@ -0,0 +1,296 @@
+import type {
+  GameState,
+  GameConfig,
+  MoveResult,
+  RecordedAction,
+  ReplayLog,
+  ScoringProfile,
+  GameVerification,
+  VerifyOptions,
+} from './types';
+import {
+  validateConfig,
+  createInitialState,
+  drawFromStock,
+  resetStock,
+  executeMove,
+  autoMoveToFoundation,
+  flipTableauCard,
+} from './game';
+import { checkWinCondition, findAutoCompleteMove, findAutoPlayMove, getUndosLeft } from './rules';
+import {
+  calculateMoveScore,
+  getInitialScore,
+  getRecycleWastePenalty,
+  getUndoPenalty,
+  applyPenalty,
+  chargeTimePenalty,
+  getTimeBonus,
+} from './scoring';
+import { REPLAY_FORMAT_VERSION, decodeReplayAction, getReplayConfig } from './replay';
+
+/**
+ * A verified position with its independently tracked score
+ */
+interface VerifiedPosition {
+  state: GameState;
+  score: number;
+  /** Seconds of play charged the time penalty (timed games) */
+  timeCharged: number;
+  /** Index of the action that won the game, or null */
+  wonAt: number | null;
+}
+
+/**
+ * Charge a timed game's penalty for play up to an action's time
+ */
+function chargeTime(position: VerifiedPosition, log: ReplayLog, index: number, config: GameConfig): VerifiedPosition {
+  const elapsedSeconds = Math.floor((log.times[index] - log.times[0]) / 1000);
+  return { ...position, ...chargeTimePenalty(position.score, position.timeCharged, elapsedSeconds, config) };
+}
+
+/**
+ * Score a successful card move, or report why it was rejected
+ */
+function scoreMove(position: VerifiedPosition, result: MoveResult): VerifiedPosition | string {
+  if (!result.success || !result.state || !result.move) {
+    return result.error ?? 'Invalid move';
+  }
+  return {
+    ...position,
+    state: result.state,
+    score: position.score + calculateMoveScore(result.move, result.state),
+  };
+}
+
+/**
+ * Apply one recorded action, returning the next position or why it is illegal
+ */
+function verifyAction(position: VerifiedPosition, action: RecordedAction): VerifiedPosition | string {
+  const { state } = position;
+
+  switch (action.type) {
+    case 'DRAW': {
+      const newState = drawFromStock(state);
+      if (newState === state) {
+        return 'Cannot draw from the stock';
+      }
+      // Only deals onto the tableau (Spider) score, via calculateMoveScore in drawFromStock
+      return { ...position, state: newState, score: position.score + newState.score - state.score };
+    }
+
+    case 'RESET_STOCK': {
+      const newState = resetStock(state);
+      if (newState === state) {
+        return 'Waste cannot be recycled';
+      }
+      return {
+        ...position,
+        state: newState,
+        score: applyPenalty(position.score, getRecycleWastePenalty(state), state.config),
+      };
+    }
+
+    case 'MOVE':
+      return scoreMove(position, executeMove(state, action.from, action.to, action.cardCount));
+
+    case 'AUTO_MOVE':
+      return scoreMove(position, autoMoveToFoundation(state, action.from));
+
+    case 'FLIP_CARD': {
+      const result = flipTableauCard(state, action.tableauIndex);
+      if (!result.success || !result.state) {
+        return result.error ?? 'Invalid flip';
+      }
+      return { ...position, state: result.state };
+    }
+
+    case 'AUTO_COMPLETE_STEP': {
+      const move = findAutoCompleteMove(state);
+      if (!move) {
+        return 'No auto-complete move';
+      }
+      return scoreMove(position, executeMove(state, move.from, move.to, 1));
+    }
+
+    case 'AUTO_PLAY': {
+      const move = findAutoPlayMove(state);
+      if (!move) {
+        return 'No auto-play move';
+      }
+      return scoreMove(position, executeMove(state, move.from, move.to, 1));
+    }
+
+    // Undo is handled by the caller, which owns the undo stack
+    case 'UNDO':
+    default:
+      return 'Unsupported action';
+  }
+}
+
+/**
+ * Whether two point tables score every move the same
+ */
+function isSameProfile(a: ScoringProfile, b: ScoringProfile): boolean {
+  const keys = Object.keys(a) as (keyof ScoringProfile)[];
+  return keys.length === Object.keys(b).length && keys.every(key => key === 'recycleWaste'
+    ? a.recycleWaste['draw-one'] === b.recycleWaste?.['draw-one'] &&
+      a.recycleWaste['draw-three'] === b.recycleWaste?.['draw-three']
+    : a[key] === b[key]);
+}
+
+/**
+ * Check a log's custom point table is one the server trusts, returning why
+ * not (or null); a client could otherwise score itself, e.g. with a huge
+ * initial score
+ */
+function checkScoringProfile(config: GameConfig, trusted: ScoringProfile[]): string | null {
+  const profile = config.scoringProfile;
+  if (profile === null || profile === undefined) {
+    return null;
+  }
+  if (typeof profile !== 'object' || !trusted.some(t => isSameProfile(t, profile))) {
+    return 'Custom scoring profile is not accepted';
+  }
+  return null;
+}
+
+/**
+ * Build the verification result for a position
+ */
+function summarize(
+  position: VerifiedPosition,
+  log: ReplayLog,
+  config: GameConfig,
+  lastIndex: number
+): GameVerification {
+  const isWon = position.wonAt !== null;
+  const endIndex = position.wonAt ?? lastIndex;
+  const time = endIndex >= 0
+    ? Math.floor((log.times[endIndex] - log.times[0]) / 1000)
+    : 0;
+  const timeBonus = isWon ? getTimeBonus(config, time) : 0;
+
+  return {
+    valid: true,
+    isWon,
+    score: position.score,
+    timeBonus,
+    finalScore: position.score + timeBonus,
+    moves: position.state.moves,
+    time,
+  };
+}
+
+/**
+ * Re-run a replay log from its seed and recompute the result
+ * Every action must be legal in the position it was played from; the score,
+ * win flag, move count and time are derived from the log alone, so results
+ * reported by a client (e.g. through onWin) can be checked on a server.
+ * The time bonus uses the recorded action times, from the first action to
+ * the winning one. Logs with a custom scoringProfile are rejected unless it
+ * is one of options.scoringProfiles.
+ */
+export function verifyGame(log: ReplayLog, options: VerifyOptions = {}): GameVerification {
+  const reject = (error: string, failedAt?: number): GameVerification => ({
+    valid: false,
+    error,
+    failedAt,
+    isWon: false,
+    score: 0,
+    timeBonus: 0,
+    finalScore: 0,
+    moves: 0,
+    time: 0,
+  });
+
+  if (!Number.isInteger(log.version) || log.version < 1 || log.version > REPLAY_FORMAT_VERSION) {
+    return reject(`Unsupported replay format version ${log.version}`);
+  }
+  if (!Number.isInteger(log.seed)) {
+    return reject('Replay has no seed');
+  }
+  if (!Array.isArray(log.actions) || !Array.isArray(log.times) || log.actions.length !== log.times.length) {
+    return reject('Every action needs a time');
+  }
+
+  // The config comes from the client too, so it must not be able to throw
+  let config: GameConfig;
+  let position: VerifiedPosition;
+  try {
+    config = getReplayConfig(log);
+    const configError = validateConfig(config) ?? checkScoringProfile(config, options.scoringProfiles ?? []);
+    if (configError) {
+      return reject(configError);
+    }
+    position = {
+      state: createInitialState(config, log.seed),
+      score: getInitialScore(config),
+      timeCharged: 0,
+      wonAt: null,
+    };
+  } catch (error) {
+    return reject(error instanceof Error ? error.message : String(error));
+  }
+  // Each undoable position, with the points the next action scored from it
+  const undoStack: { position: VerifiedPosition; scoreChange: number; followUp: boolean }[] = [];
+
+  for (let i = 0; i < log.actions.length; i++) {
+    const time = log.times[i];
+    if (!Number.isFinite(time) || time < 0 || (i > 0 && time < log.times[i - 1])) {
+      return reject('Action times must not go backwards', i);
+    }
+
+    let action: RecordedAction;
+    try {
+      action = decodeReplayAction(log.actions[i]);
+    } catch (error) {
+      return reject(error instanceof Error ? error.message : String(error), i);
+    }
+
+    if (action.type === 'UNDO') {
+      let previous = undoStack.pop();
+      if (!previous) {
+        return reject('Nothing to undo', i);
+      }
+      if (getUndosLeft(position.state) === 0) {
+        return reject('No undos left', i);
+      }
+      // Auto-complete and auto-play steps are undone with the action before them
+      let scoreChange = previous.scoreChange;
+      while (previous.followUp && undoStack.length > 0) {
+        previous = undoStack.pop()!;
+        scoreChange += previous.scoreChange;
+      }
+      // Take back the action's own points, keeping any earlier undo penalties
+      const penalty = getUndoPenalty(position.state);
+      const restored = { ...previous.position.state, undoCount: position.state.undoCount + 1 };
+      position = chargeTime(penalty === 0 ? { ...previous.position, state: restored } : {
+        ...previous.position,
+        state: restored,
+        score: applyPenalty(position.score - scoreChange, penalty, config),
+        timeCharged: position.timeCharged,
+      }, log, i, config);
+      continue;
+    }
+
+    if (position.wonAt !== null) {
+      return reject('Game is already won', i);
+    }
+
+    const next = verifyAction(position, action);
+    if (typeof next === 'string') {
+      return reject(next, i);
+    }
+
+    undoStack.push({
+      position,
+      scoreChange: next.score - position.score,
+      followUp: action.type === 'AUTO_COMPLETE_STEP' || action.type === 'AUTO_PLAY',
+    });
+    const charged = chargeTime(next, log, i, config);
+    position = checkWinCondition(next.state) ? { ...charged, wonAt: i } : charged;
+  }
+
+  return summarize(position, log, config, log.actions.length - 1);
+}
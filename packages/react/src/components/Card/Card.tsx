@@ -17,6 +17,8 @@ export interface CardProps {
   isDragging?: boolean;
   /** Whether this is a valid drop target */
   isValidDrop?: boolean;
+  /** Whether the card is highlighted by a hint */
+  isHinted?: boolean;
   /** Z-index for stacking */
   zIndex?: number;
   /** Click handler */
@@ -44,6 +46,7 @@ interface StyledCardProps {
   $isSelected: boolean;
   $isDragging: boolean;
   $isValidDrop: boolean;
+  $isHinted: boolean;
   $cardBack: string;
   $cardFace: string;
   $cardBorder: string;
@@ -78,6 +81,11 @@ const StyledCard = styled.div<StyledCardProps>`
     outline-offset: 1px;
   `}
   
+  ${p => p.$isHinted && css`
+    outline: 2px dashed ${p.$highlight};
+    outline-offset: 1px;
+  `}
+  
   ${p => p.$isDragging && css`
     opacity: 0.9;
     z-index: 1000;
@@ -215,6 +223,7 @@ export const Card = forwardRef<HTMLDivElement, CardProps>(function Card(
     isSelected = false,
     isDragging = false,
     isValidDrop = false,
+    isHinted = false,
     zIndex,
     onClick,
     onDoubleClick,
@@ -275,6 +284,7 @@ export const Card = forwardRef<HTMLDivElement, CardProps>(function Card(
         $isSelected={isSelected}
         $isDragging={isDragging}
         $isValidDrop={isValidDrop}
+        $isHinted={isHinted}
         $cardBack={theme.colors.cardBack}
         $cardFace={theme.colors.cardFace}
         $cardBorder={theme.colors.cardBorder}
@@ -314,6 +324,7 @@ export const Card = forwardRef<HTMLDivElement, CardProps>(function Card(
       $isSelected={isSelected}
       $isDragging={isDragging}
       $isValidDrop={isValidDrop}
+      $isHinted={isHinted}
       $cardBack={theme.colors.cardBack}
       $cardFace={theme.colors.cardFace}
       $cardBorder={theme.colors.cardBorder}
@@ -12,8 +12,12 @@ export interface ControlsProps {
   moves: number;
   /** Scoring mode */
   scoringMode: ScoringMode;
+  /** Vegas balance carried over from earlier games (cumulative Vegas) */
+  bankroll?: number;
   /** Whether undo is available */
   canUndo: boolean;
+  /** Whether redo is available */
+  canRedo?: boolean;
   /** Whether auto-complete is available */
   canAutoComplete: boolean;
   /** Theme for styling */
@@ -22,6 +26,8 @@ export interface ControlsProps {
   onNewGame: () => void;
   /** Undo handler */
   onUndo: () => void;
+  /** Redo handler (the Redo button is hidden without one) */
+  onRedo?: () => void;
   /** Auto-complete handler */
   onAutoComplete: () => void;
   /** Additional class name */
@@ -94,15 +100,18 @@ export function Controls({
   score,
   moves,
   scoringMode,
+  bankroll = 0,
   canUndo,
+  canRedo = false,
   canAutoComplete,
   theme,
   onNewGame,
   onUndo,
+  onRedo,
   onAutoComplete,
   className,
 }: ControlsProps) {
-  const formattedScore = formatScore(score, scoringMode);
+  const formattedScore = formatScore(score, scoringMode, bankroll);
 
   return (
     <StyledControls
@@ -135,6 +144,19 @@ export function Controls({
         >
           Undo
         </Button>
+
+        {onRedo && (
+          <Button
+            $fontFamily={theme.typography.uiFont}
+            $fontSize={theme.typography.uiFontSize}
+            onClick={onRedo}
+            disabled={!canRedo}
+            $disabled={!canRedo}
+            title="Redo (Ctrl+Y)"
+          >
+            Redo
+          </Button>
+        )}
         
         {canAutoComplete && (
           <Button
@@ -0,0 +1,172 @@
+import styled from 'styled-components';
+import type { HistoryNode, RecordedAction, CardLocation } from '@react-solitaire/core';
+import type { SolitaireTheme } from '../../themes/types';
+
+/**
+ * HistoryTree component props
+ */
+export interface HistoryTreeProps {
+  /** Every node of the undo history (from useGame) */
+  nodes: HistoryNode[];
+  /** Node of the position on the table */
+  currentNodeId: number;
+  /** Called with the node the player clicks */
+  onSelectNode: (nodeId: number) => void;
+  /** Theme for styling */
+  theme: SolitaireTheme;
+  /** Additional class name */
+  className?: string;
+}
+
+interface StyledHistoryTreeProps {
+  $fontFamily: string;
+  $fontSize: number;
+  $textColor: string;
+}
+
+const StyledHistoryTree = styled.div<StyledHistoryTreeProps>`
+  font-family: ${p => p.$fontFamily};
+  font-size: ${p => p.$fontSize}px;
+  color: ${p => p.$textColor};
+  overflow: auto;
+`;
+
+const Line = styled.ol<{ $nested: boolean; $borderColor: string }>`
+  list-style: none;
+  margin: 0;
+  padding: 0 0 0 ${p => p.$nested ? '1em' : '0'};
+  border-left: ${p => p.$nested ? `1px solid ${p.$borderColor}` : 'none'};
+`;
+
+const NodeButton = styled.button<{ $current: boolean; $highlight: string }>`
+  display: block;
+  width: 100%;
+  padding: 0.1em 0.4em;
+  border: none;
+  background: ${p => p.$current ? p.$highlight : 'transparent'};
+  color: inherit;
+  font: inherit;
+  text-align: left;
+  cursor: pointer;
+
+  &:hover {
+    background: ${p => p.$highlight};
+  }
+`;
+
+const MoveNumber = styled.span<{ $color: string }>`
+  display: inline-block;
+  min-width: 2.5em;
+  color: ${p => p.$color};
+  font-variant-numeric: tabular-nums;
+`;
+
+/**
+ * Name of the pile at a location
+ */
+function describeLocation(location: CardLocation): string {
+  switch (location.pileType) {
+    case 'stock':
+      return 'Stock';
+    case 'waste':
+      return 'Waste';
+    case 'foundation':
+      return `Foundation ${location.pileIndex + 1}`;
+    case 'tableau':
+      return `Column ${location.pileIndex + 1}`;
+    case 'cell':
+      return `Cell ${location.pileIndex + 1}`;
+  }
+}
+
+/**
+ * Short description of a recorded action
+ */
+function describeAction(action: RecordedAction): string {
+  switch (action.type) {
+    case 'DRAW':
+      return 'Draw';
+    case 'RESET_STOCK':
+      return 'Recycle waste';
+    case 'FLIP_CARD':
+      return `Flip column ${action.tableauIndex + 1}`;
+    case 'MOVE': {
+      const cards = action.cardCount > 1 ? ` (${action.cardCount} cards)` : '';
+      return `${describeLocation(action.from)} → ${describeLocation(action.to)}${cards}`;
+    }
+    case 'AUTO_MOVE':
+      return `Play from ${describeLocation(action.from)}`;
+    case 'AUTO_COMPLETE_STEP':
+      return 'Auto-complete';
+    case 'AUTO_PLAY':
+      return 'Auto-play';
+    case 'UNDO':
+      return 'Undo';
+  }
+}
+
+/**
+ * Follow a line of play from a node: each node continues with the branch
+ * redo would take (or its latest branch), and the other branches hang off it
+ */
+function followLine(nodes: HistoryNode[], startId: number): HistoryNode[] {
+  const line: HistoryNode[] = [];
+  let node: HistoryNode | undefined = nodes[startId];
+  while (node) {
+    line.push(node);
+    const nextId: number | undefined = node.redoChild ?? node.children.at(-1);
+    node = nextId === undefined ? undefined : nodes[nextId];
+  }
+  return line;
+}
+
+/**
+ * Branching undo history: click any position to go back to it
+ * Each line of play is listed in order, with the lines that branch off it
+ * indented below the move they branched from.
+ */
+export function HistoryTree({ nodes, currentNodeId, onSelectNode, theme, className }: HistoryTreeProps) {
+  const renderLine = (startId: number, nested: boolean) => {
+    const line = followLine(nodes, startId);
+    return (
+      <Line $nested={nested} $borderColor={theme.colors.textSecondary}>
+        {line.map((node, i) => {
+          const next = line[i + 1];
+          const branches = node.children.filter(id => id !== next?.id);
+          return (
+            <li key={node.id}>
+              <NodeButton
+                type="button"
+                $current={node.id === currentNodeId}
+                $highlight={theme.colors.highlight}
+                onClick={() => onSelectNode(node.id)}
+                aria-current={node.id === currentNodeId ? 'step' : undefined}
+              >
+                <MoveNumber $color={theme.colors.textSecondary}>
+                  {node.depth > 0 ? `${node.depth}.` : ''}
+                </MoveNumber>
+                {node.entry ? describeAction(node.entry.action) : 'Deal'}
+              </NodeButton>
+              {branches.map(id => (
+                <div key={id}>{renderLine(id, true)}</div>
+              ))}
+            </li>
+          );
+        })}
+      </Line>
+    );
+  };
+
+  return (
+    <StyledHistoryTree
+      $fontFamily={theme.typography.uiFont}
+      $fontSize={theme.typography.uiFontSize}
+      $textColor={theme.colors.text}
+      className={className}
+    >
+      {nodes.length > 0 && renderLine(0, false)}
+    </StyledHistoryTree>
+  );
+}
+
+export default HistoryTree;
@@ -0,0 +1,2 @@
+export { HistoryTree, type HistoryTreeProps } from './HistoryTree';
+export { HistoryTree as default } from './HistoryTree';
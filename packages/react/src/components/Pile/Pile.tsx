@@ -1,4 +1,4 @@
-import React, { forwardRef, useCallback, useMemo, useRef, useEffect } from 'react';
+import React, { forwardRef, memo, useCallback, useMemo, useRef, useEffect } from 'react';
 import styled, { css } from 'styled-components';
 import { type Pile as PileType, type CardLocation, SUIT_INFO } from '@react-solitaire/core';
 import type { SolitaireTheme } from '../../themes/types';
@@ -40,6 +40,10 @@ export interface PileProps {
   hiddenCardIds?: Set<string>;
   /** Whether drawing from stock is allowed (for empty stock indicator) */
   canDrawFromStock?: boolean;
+  /** Card highlighted by a hint */
+  hintedCard?: CardLocation | null;
+  /** Whether the pile is the destination of a hint */
+  isHintTarget?: boolean;
 }
 
 interface StyledPileProps {
@@ -158,7 +162,7 @@ const CardWrapper = styled.div<CardWrapperProps>`
  */
 function getFoundationSuitIndicator(pileIndex: number): { symbol: string; colour: 'red' | 'black' } {
   const suits = ['hearts', 'diamonds', 'clubs', 'spades'] as const;
-  const suit = suits[pileIndex];
+  const suit = suits[pileIndex % suits.length];
   return {
     symbol: SUIT_INFO[suit].symbol,
     colour: SUIT_INFO[suit].colour,
@@ -166,9 +170,9 @@ function getFoundationSuitIndicator(pileIndex: number): { symbol: string; colour
 }
 
 /**
- * Pile component
+ * Pile component (memoized, so piles a move leaves alone skip re-rendering)
  */
-export const Pile = forwardRef<HTMLDivElement, PileProps>(function Pile(
+export const Pile = memo(forwardRef<HTMLDivElement, PileProps>(function Pile(
   {
     pile,
     theme,
@@ -186,6 +190,8 @@ export const Pile = forwardRef<HTMLDivElement, PileProps>(function Pile(
     className,
     hiddenCardIds,
     canDrawFromStock = true,
+    hintedCard,
+    isHintTarget = false,
   },
   ref
 ) {
@@ -282,25 +288,35 @@ export const Pile = forwardRef<HTMLDivElement, PileProps>(function Pile(
     );
   }, [selectedCard, location]);
 
+  const isCardHinted = useCallback((cardIndex: number) => {
+    if (!hintedCard) return false;
+    return (
+      hintedCard.pileType === location.pileType &&
+      hintedCard.pileIndex === location.pileIndex &&
+      hintedCard.cardIndex === cardIndex
+    );
+  }, [hintedCard, location]);
+
   const isDropTargetCard = useCallback((cardIndex: number) => {
+    if (isHintTarget && cardIndex === pile.cards.length - 1) return true;
     if (!dropTarget || !isValidDropTarget) return false;
     return (
       dropTarget.pileType === location.pileType &&
       dropTarget.pileIndex === location.pileIndex &&
       cardIndex === pile.cards.length - 1 // Only highlight top card
     );
-  }, [dropTarget, isValidDropTarget, location, pile.cards.length]);
+  }, [dropTarget, isValidDropTarget, isHintTarget, location, pile.cards.length]);
 
-  // Determine if the empty pile should show as drop target
-  const showEmptyAsDropTarget = isValidDropTarget && pile.cards.length === 0 && dropTarget && 
+  // Determine if the empty pile should show as drop target (or hint destination)
+  const showEmptyAsDropTarget = pile.cards.length === 0 && (isHintTarget || (isValidDropTarget && dropTarget &&
     dropTarget.pileType === location.pileType && 
-    dropTarget.pileIndex === location.pileIndex;
+    dropTarget.pileIndex === location.pileIndex));
 
   // Determine if the entire pile should show as a valid drop target (for tableau with cards)
-  const showPileAsDropTarget = isValidDropTarget && pile.cards.length > 0 && dropTarget &&
-    dropTarget.pileType === location.pileType &&
-    dropTarget.pileIndex === location.pileIndex &&
-    (pile.type === 'tableau' || pile.type === 'foundation');
+  const showPileAsDropTarget = pile.cards.length > 0 && (pile.type === 'tableau' || pile.type === 'foundation') &&
+    (isHintTarget || (isValidDropTarget && dropTarget &&
+      dropTarget.pileType === location.pileType &&
+      dropTarget.pileIndex === location.pileIndex));
 
   return (
     <StyledPile
@@ -325,8 +341,8 @@ export const Pile = forwardRef<HTMLDivElement, PileProps>(function Pile(
         />
       )}
 
-      {/* Drop target for foundations - always present for drop detection */}
-      {useAssets && pile.type === 'foundation' && (
+      {/* Drop target for foundations and free cells - always present for drop detection */}
+      {useAssets && (pile.type === 'foundation' || pile.type === 'cell') && (
         <div
           ref={pileRef}
           onClick={handlePileClick}
@@ -343,7 +359,7 @@ export const Pile = forwardRef<HTMLDivElement, PileProps>(function Pile(
           {pile.cards.length === 0 && (
             <EmptyPileImage
               src={`${basePath}/${theme.assets?.foundationEmpty ?? 'Space-Vacant.gif'}`}
-              alt="Empty foundation"
+              alt={pile.type === 'cell' ? 'Empty free cell' : 'Empty foundation'}
               $scale={scale}
               $isValidDrop={Boolean(showEmptyAsDropTarget)}
               $validDropColor={theme.colors.validDrop}
@@ -353,7 +369,7 @@ export const Pile = forwardRef<HTMLDivElement, PileProps>(function Pile(
       )}
 
       {/* Empty pile indicator - Image-based (stock and tableau only) */}
-      {useAssets && pile.cards.length === 0 && pile.type !== 'foundation' && (
+      {useAssets && pile.cards.length === 0 && (pile.type === 'stock' || pile.type === 'tableau') && (
         <div
           ref={pile.type === 'stock' ? pileRef : undefined}
           onClick={handlePileClick}
@@ -372,7 +388,7 @@ export const Pile = forwardRef<HTMLDivElement, PileProps>(function Pile(
               src={`${basePath}/${canDrawFromStock ? theme.assets?.stockEmpty ?? 'Space-Yes.gif' : theme.assets?.stockDisabled ?? 'Space-No.gif'}`}
               alt={canDrawFromStock ? 'Click to recycle' : 'No more draws'}
               $scale={scale}
-              $isValidDrop={false}
+              $isValidDrop={Boolean(showEmptyAsDropTarget)}
               $validDropColor={theme.colors.validDrop}
             />
           )}
@@ -457,6 +473,7 @@ export const Pile = forwardRef<HTMLDivElement, PileProps>(function Pile(
               theme={theme}
               isSelected={isCardSelected(index)}
               isValidDrop={isDropTargetCard(index)}
+              isHinted={isCardHinted(index)}
               scale={scale}
               onClick={() => handleCardClick(index)}
               onDoubleClick={() => handleCardDoubleClick(index)}
@@ -467,7 +484,7 @@ export const Pile = forwardRef<HTMLDivElement, PileProps>(function Pile(
       })}
     </StyledPile>
   );
-});
+}));
 
 Pile.displayName = 'Pile';
 
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import { Solitaire } from './Solitaire';
+import type { SolitaireOptions } from '../../themes/types';
+
+/**
+ * Render a game and draw once from the stock, so there is a move to undo
+ */
+function renderWithMove(options?: SolitaireOptions) {
+  const { container } = render(<Solitaire options={options} />);
+  const game = container.firstElementChild as HTMLElement;
+  // The stock is the first pile, and clicking any of its cards draws
+  fireEvent.click(game.querySelector('[data-card-id]')!);
+  expect(screen.getByText('Moves: 1')).toBeTruthy();
+  return game;
+}
+
+describe('Solitaire', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('keyboard shortcuts', () => {
+    it('undoes with Ctrl+Z (or Cmd+Z) and redoes with Ctrl+Y or Ctrl+Shift+Z', () => {
+      const game = renderWithMove();
+
+      fireEvent.keyDown(game, { key: 'z', ctrlKey: true });
+      expect(screen.getByText('Moves: 0')).toBeTruthy();
+
+      fireEvent.keyDown(game, { key: 'y', ctrlKey: true });
+      expect(screen.getByText('Moves: 1')).toBeTruthy();
+
+      fireEvent.keyDown(game, { key: 'z', metaKey: true });
+      expect(screen.getByText('Moves: 0')).toBeTruthy();
+
+      fireEvent.keyDown(game, { key: 'Z', ctrlKey: true, shiftKey: true });
+      expect(screen.getByText('Moves: 1')).toBeTruthy();
+    });
+
+    it('leaves keys pressed outside the game to the page', () => {
+      renderWithMove();
+      const input = document.body.appendChild(document.createElement('input'));
+
+      fireEvent.keyDown(document.body, { key: 'z', ctrlKey: true });
+      fireEvent.keyDown(input, { key: 'z', ctrlKey: true });
+      expect(screen.getByText('Moves: 1')).toBeTruthy();
+      input.remove();
+    });
+
+    it('ignores keys typed into inputs inside the game', () => {
+      const game = renderWithMove();
+      const input = game.appendChild(document.createElement('input'));
+
+      fireEvent.keyDown(input, { key: 'z', ctrlKey: true });
+      expect(screen.getByText('Moves: 1')).toBeTruthy();
+      input.remove();
+    });
+
+    it('ignores Z and Y without Ctrl or Cmd', () => {
+      const game = renderWithMove();
+
+      fireEvent.keyDown(game, { key: 'z' });
+      expect(screen.getByText('Moves: 1')).toBeTruthy();
+    });
+  });
+
+  describe('auto-play', () => {
+    it('keeps playing cards to the foundations one step at a time', () => {
+      // Seed 4 deals three Aces and the Two of Hearts to the tops of the columns
+      vi.spyOn(Math, 'random').mockReturnValue(4 / 2 ** 31);
+      vi.useFakeTimers();
+      renderWithMove({ autoPlay: 'all' });
+      expect(screen.getByText('Score: 0')).toBeTruthy();
+
+      // Each step schedules the next once the state it played renders
+      for (const score of [10, 20, 30, 40]) {
+        act(() => {
+          vi.advanceTimersByTime(100);
+        });
+        expect(screen.getByText(`Score: ${score}`)).toBeTruthy();
+      }
+      act(() => {
+        vi.advanceTimersByTime(1000);
+      });
+      expect(screen.getByText('Score: 40')).toBeTruthy();
+    });
+  });
+});
@@ -3,12 +3,18 @@ import styled from 'styled-components';
 import {
   type CardLocation,
   type GameConfig,
+  type Hint,
   isValidMove,
-  canPickUpCards,
+  getRuleSet,
   getPile,
   canAutoComplete,
   canAutoMove,
-  hasValidMoves,
+  findAutoPlayMove,
+  getMoveAvailability,
+  getBestHint,
+  canResetStock,
+  getUndosLeft,
+  formatScore,
 } from '@react-solitaire/core';
 import type { SolitaireTheme, SolitaireOptions } from '../../themes/types';
 import { defaultTheme } from '../../themes';
@@ -19,6 +25,7 @@ import { useSounds } from '../../hooks/useSounds';
 import { Table } from '../Table';
 import { Card } from '../Card';
 import { VictoryAnimation } from '../VictoryAnimation';
+import { HistoryTree } from '../HistoryTree';
 
 /**
  * Solitaire component props
@@ -29,7 +36,7 @@ export interface SolitaireProps {
   /** Game options */
   options?: SolitaireOptions;
   /** Callback when game is won */
-  onWin?: (stats: { time: number; moves: number; score: number }) => void;
+  onWin?: (stats: { time: number; moves: number; score: number; undos: number }) => void;
   /** Callback when a new game starts */
   onNewGame?: () => void;
   /** External control: start new game */
@@ -103,6 +110,62 @@ const AutoCompleteButton = styled.button<{ $font: string; $visible: boolean }>`
   }
 `;
 
+const HintButton = styled.button<{ $font: string }>`
+  position: absolute;
+  bottom: 40px;
+  right: 16px;
+  padding: 4px 16px;
+  font-family: ${p => p.$font};
+  font-size: 12px;
+  background: #c0c0c0;
+  border: 2px outset #ffffff;
+  cursor: pointer;
+  z-index: 50;
+
+  &:active {
+    border-style: inset;
+  }
+`;
+
+const HistoryButtons = styled.div`
+  position: absolute;
+  bottom: 40px;
+  left: 16px;
+  display: flex;
+  gap: 4px;
+  z-index: 50;
+`;
+
+const HistoryButton = styled.button<{ $font: string }>`
+  padding: 4px 16px;
+  font-family: ${p => p.$font};
+  font-size: 12px;
+  background: #c0c0c0;
+  border: 2px outset #ffffff;
+  cursor: pointer;
+
+  &:disabled {
+    color: #808080;
+    cursor: default;
+  }
+
+  &:active:not(:disabled) {
+    border-style: inset;
+  }
+`;
+
+const HistoryPanel = styled(HistoryTree)`
+  position: absolute;
+  bottom: 72px;
+  left: 16px;
+  width: 260px;
+  max-height: 50%;
+  padding: 8px;
+  background: rgba(0, 0, 0, 0.85);
+  border-radius: 4px;
+  z-index: 60;
+`;
+
 const NoMovesOverlay = styled.div<{ $font: string }>`
   position: absolute;
   top: 50%;
@@ -139,6 +202,24 @@ const NoMovesOverlay = styled.div<{ $font: string }>`
       border-style: inset;
     }
   }
+
+  button + button {
+    margin-left: 8px;
+  }
+`;
+
+const DealingOverlay = styled.div<{ $font: string }>`
+  position: absolute;
+  top: 50%;
+  left: 50%;
+  transform: translate(-50%, -50%);
+  padding: 16px 32px;
+  font-family: ${p => p.$font};
+  font-size: 16px;
+  background: rgba(0, 0, 0, 0.85);
+  color: #ffffff;
+  border-radius: 8px;
+  z-index: 100;
 `;
 
 const TestButton = styled.button<{ $font: string }>`
@@ -186,6 +267,9 @@ export function Solitaire({
   const [showVictory, setShowVictory] = useState(false);
   const [isAutoCompleting, setIsAutoCompleting] = useState(false);
   const [launchedCardIds, setLaunchedCardIds] = useState<Set<string>>(new Set());
+  const [hint, setHint] = useState<Hint | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [keepPlaying, setKeepPlaying] = useState(false);
   const autoCompleteIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
   
   // Store callbacks in refs for stable access
@@ -196,15 +280,44 @@ export function Solitaire({
 
   // Memoize game config - only changes when specific options change
   const gameConfig = useMemo<Partial<GameConfig>>(() => ({
+    variant: options.variant ?? 'klondike',
+    spiderSuits: options.spiderSuits ?? 1,
+    decks: options.decks ?? 1,
+    tableauColumns: options.tableauColumns ?? 7,
     drawMode: options.drawMode ?? 'draw-one',
+    drawCount: options.drawCount ?? null,
     scoringMode: options.scoringMode ?? 'standard',
+    scoringProfile: options.scoringProfile ?? null,
+    timedGame: options.timedGame ?? false,
     unlimitedPasses: options.unlimitedPasses ?? true,
+    passLimit: options.passLimit ?? null,
+    undoMode: options.undoMode ?? (options.undoEnabled === false ? 'disabled' : 'unlimited'),
+    undoLimit: options.undoLimit ?? 3,
     autoFlipTableau: options.autoFlipTableau ?? false, // Default to click-to-flip like original
-  }), [options.drawMode, options.scoringMode, options.unlimitedPasses, options.autoFlipTableau]);
+    autoPlay: options.autoPlay ?? 'off',
+  }), [
+    options.variant,
+    options.spiderSuits,
+    options.decks,
+    options.tableauColumns,
+    options.drawMode,
+    options.drawCount,
+    options.scoringMode,
+    options.scoringProfile,
+    options.timedGame,
+    options.unlimitedPasses,
+    options.passLimit,
+    options.undoMode,
+    options.undoEnabled,
+    options.undoLimit,
+    options.autoFlipTableau,
+    options.autoPlay,
+  ]);
 
   // Game state management
   const {
     state: gameState,
+    isDealing,
     newGame,
     draw,
     resetWaste,
@@ -212,8 +325,23 @@ export function Solitaire({
     autoMove,
     flipCard,
     autoCompleteStep,
+    autoPlayStep,
+    undo,
+    canUndo,
+    redo,
+    canRedo,
+    historyNodes,
+    currentNodeId,
+    goToNode,
     triggerWin,
-  } = useGame({ config: gameConfig });
+    bankroll,
+    lastMoveResult,
+  } = useGame({
+    config: gameConfig,
+    dealMode: options.dealMode,
+    cumulativeVegas: options.cumulativeVegas,
+    bankrollKey: options.bankrollKey,
+  });
 
   // Store current gameState in ref for use in callbacks
   const gameStateRef = useRef(gameState);
@@ -223,6 +351,11 @@ export function Solitaire({
   const moveRef = useRef(move);
   moveRef.current = move;
 
+  // Any change to the game makes the current hint stale
+  useEffect(() => {
+    setHint(null);
+  }, [gameState]);
+
   // Track game win state
   const prevIsWonRef = useRef(false);
   useEffect(() => {
@@ -235,10 +368,11 @@ export function Solitaire({
           : 0,
         moves: gameState.moves,
         score: gameState.score,
+        undos: gameState.undoCount,
       });
     }
     prevIsWonRef.current = gameState.isWon;
-  }, [gameState.isWon, gameState.endTime, gameState.startTime, gameState.moves, gameState.score]);
+  }, [gameState.isWon, gameState.endTime, gameState.startTime, gameState.moves, gameState.score, gameState.undoCount]);
 
   // Timer - memoize options object
   const timerOptions = useMemo(() => ({
@@ -348,6 +482,20 @@ export function Solitaire({
     };
   }, [isAutoCompleting, gameState.isWon, autoCompleteStep]);
 
+  // Auto-play: after each move, promote cards to the foundations one at a
+  // time (undo takes them back with the move)
+  useEffect(() => {
+    if (!lastMoveResult?.success || isAutoCompleting || gameState.isWon || !findAutoPlayMove(gameState)) {
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      autoPlayStep();
+      soundsRef.current.play('place');
+    }, 100);
+    return () => clearTimeout(timer);
+  }, [gameState, lastMoveResult, isAutoCompleting, autoPlayStep]);
+
   // Handle stock click - draw or reset
   const handleStockClick = useCallback(() => {
     const currentState = gameStateRef.current;
@@ -399,7 +547,8 @@ export function Solitaire({
         return null;
       } else {
         // Select this card
-        if (canPickUpCards(pile, location.cardIndex)) {
+        const rules = getRuleSet(currentState.config.variant);
+        if (rules.canPickUpCards(pile, location.cardIndex, currentState)) {
           soundsRef.current.play('flip');
           return location;
         }
@@ -427,13 +576,15 @@ export function Solitaire({
     location: CardLocation,
     element: HTMLElement
   ) => {
-    const pile = getPile(gameStateRef.current, location);
+    const currentState = gameStateRef.current;
+    const pile = getPile(currentState, location);
     if (!pile) return;
 
     const card = pile.cards[location.cardIndex];
     if (!card?.faceUp) return;
 
-    if (!canPickUpCards(pile, location.cardIndex)) return;
+    const rules = getRuleSet(currentState.config.variant);
+    if (!rules.canPickUpCards(pile, location.cardIndex, currentState)) return;
 
     const cardCount = pile.cards.length - location.cardIndex;
     startDrag(event, location, cardCount, element);
@@ -444,6 +595,57 @@ export function Solitaire({
     setIsAutoCompleting(true);
   }, []);
 
+  // Handle hint button - highlight the best suggestion
+  const handleHint = useCallback(() => {
+    const best = getBestHint(gameStateRef.current);
+    setHint(best);
+    if (!best) {
+      soundsRef.current.play('invalid');
+    }
+  }, []);
+
+  // Undo and redo drop any selection, which may no longer exist
+  const handleUndo = useCallback(() => {
+    undo();
+    setSelectedCard(null);
+  }, [undo]);
+
+  const handleRedo = useCallback(() => {
+    redo();
+    setSelectedCard(null);
+  }, [redo]);
+
+  // The history tree would get round undo limits and penalties
+  const historyEnabled = options.historyEnabled !== false && gameConfig.undoMode === 'unlimited';
+
+  const undosLeft = getUndosLeft(gameState);
+
+  const handleToggleHistory = useCallback(() => {
+    setShowHistory(shown => !shown);
+  }, []);
+
+  const handleSelectNode = useCallback((nodeId: number) => {
+    if (goToNode(nodeId)) {
+      setSelectedCard(null);
+    }
+  }, [goToNode]);
+
+  // Keyboard shortcuts: Ctrl+Z undo, Ctrl+Y (or Ctrl+Shift+Z) redo, only while
+  // the game has focus so the host page's own inputs keep their undo
+  const handleKeyDown = useCallback((event: React.KeyboardEvent) => {
+    if (!(event.ctrlKey || event.metaKey)) return;
+    const target = event.target as HTMLElement;
+    if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+    const key = event.key.toLowerCase();
+    if (key === 'y' || (key === 'z' && event.shiftKey)) {
+      event.preventDefault();
+      handleRedo();
+    } else if (key === 'z') {
+      event.preventDefault();
+      handleUndo();
+    }
+  }, [handleUndo, handleRedo]);
+
   // Handle test victory button
   const handleTestVictory = useCallback(() => {
     triggerWin();
@@ -480,7 +682,15 @@ export function Solitaire({
   const gap = theme.spacing.pileGap * scale;
   const padding = theme.spacing.tablePadding * scale;
   
-  const minWidth = (cardWidth * 7) + (gap * 6) + (padding * 2);
+  // Widest of the top row and the tableau; grid layouts (Pyramid, TriPeaks)
+  // place cards in half card widths
+  const layout = getRuleSet(gameState.config.variant).layout(gameState.config);
+  const topRowPiles = Number(layout.stock) + Number(layout.waste) + layout.cells + layout.foundations;
+  const tableauColumns = layout.grid
+    ? Math.max(...layout.grid.map(slot => slot.column)) / 2 + 1
+    : gameState.tableau.length;
+  const columns = Math.max(topRowPiles, tableauColumns);
+  const minWidth = (cardWidth * columns) + (gap * (columns - 1)) + (padding * 2);
   const minHeight = (cardHeight * 3) + (gap * 2) + (padding * 2) + 40; // +40 for status bar
 
   // Get cards being dragged
@@ -494,13 +704,23 @@ export function Solitaire({
   // Check if auto-complete is available
   const canDoAutoComplete = canAutoComplete(gameState) && !isAutoCompleting && !gameState.isWon;
 
-  // Check if there are no valid moves remaining (game over)
-  const isGameOver = !gameState.isWon && !hasValidMoves(gameState);
+  // Check if there are no useful moves remaining (game over), even after
+  // turning the stock round
+  const moveAvailability = useMemo(() => getMoveAvailability(gameState), [gameState]);
+  const isGameOver = !gameState.isWon && !isDealing &&
+    moveAvailability !== 'playable' &&
+    !(moveAvailability === 'pointless' && keepPlaying);
+
+  // Offer the overlay again once the game gets going and stalls again
+  useEffect(() => {
+    if (moveAvailability === 'playable') {
+      setKeepPlaying(false);
+    }
+  }, [moveAvailability]);
 
   // Check if drawing from stock is allowed (for empty stock indicator)
-  // True if there are waste cards to recycle, and unlimited passes is allowed
-  const canDrawFromStock = gameState.waste.cards.length > 0 && 
-    (gameState.config.unlimitedPasses || gameState.stockPasses < 3);
+  // True if there are waste cards to recycle within the pass limit
+  const canDrawFromStock = canResetStock(gameState);
 
   // isValidDropTarget callback for Table - use ref for current drag state
   const dragStateRef = useRef(dragState);
@@ -521,6 +741,8 @@ export function Solitaire({
       $width={minWidth}
       $height={minHeight}
       className={className}
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
     >
       <Table
         gameState={gameState}
@@ -537,6 +759,7 @@ export function Solitaire({
         scale={scale}
         hiddenCardIds={launchedCardIds}
         canDrawFromStock={canDrawFromStock}
+        hint={hint}
       />
 
       {/* Drag layer */}
@@ -575,6 +798,58 @@ export function Solitaire({
         Auto Complete
       </AutoCompleteButton>
 
+      {/* Hint button */}
+      {options.hintsEnabled !== false && !gameState.isWon && (
+        <HintButton
+          $font={theme.typography.uiFont}
+          onClick={handleHint}
+          title="Show a suggested move"
+        >
+          Hint
+        </HintButton>
+      )}
+
+      {/* Undo / redo toolbar */}
+      {!showVictory && gameConfig.undoMode !== 'disabled' && (
+        <HistoryButtons>
+          <HistoryButton
+            $font={theme.typography.uiFont}
+            onClick={handleUndo}
+            disabled={!canUndo}
+            title="Undo (Ctrl+Z)"
+          >
+            {undosLeft === null ? 'Undo' : `Undo (${undosLeft})`}
+          </HistoryButton>
+          <HistoryButton
+            $font={theme.typography.uiFont}
+            onClick={handleRedo}
+            disabled={!canRedo}
+            title="Redo (Ctrl+Y)"
+          >
+            Redo
+          </HistoryButton>
+          {historyEnabled && (
+            <HistoryButton
+              $font={theme.typography.uiFont}
+              onClick={handleToggleHistory}
+              title="Show every line of play"
+            >
+              History
+            </HistoryButton>
+          )}
+        </HistoryButtons>
+      )}
+
+      {/* Branching move history */}
+      {showHistory && !showVictory && historyEnabled && (
+        <HistoryPanel
+          nodes={historyNodes}
+          currentNodeId={currentNodeId}
+          onSelectNode={handleSelectNode}
+          theme={theme}
+        />
+      )}
+
       {/* Test victory button (for development) */}
       {showTestButton && (
         <TestButton
@@ -586,15 +861,34 @@ export function Solitaire({
         </TestButton>
       )}
 
-      {/* Game over overlay - no valid moves remaining */}
+      {/* Game over overlay - no valid or only pointless moves remaining */}
       {isGameOver && (
         <NoMovesOverlay $font={theme.typography.uiFont}>
-          <h2>No Moves Available</h2>
-          <p>There are no more valid moves in this game.</p>
+          {moveAvailability === 'none' ? (
+            <>
+              <h2>No Moves Available</h2>
+              <p>There are no more valid moves in this game.</p>
+            </>
+          ) : (
+            <>
+              <h2>No Useful Moves</h2>
+              <p>Turning the stock or shifting cards around will not change anything now.</p>
+            </>
+          )}
           <button onClick={handleNewGameFromOverlay}>New Game</button>
+          {moveAvailability === 'pointless' && (
+            <button onClick={() => setKeepPlaying(true)}>Keep Playing</button>
+          )}
         </NoMovesOverlay>
       )}
 
+      {/* Winnable deal search in progress */}
+      {isDealing && (
+        <DealingOverlay $font={theme.typography.uiFont}>
+          Dealing a winnable game…
+        </DealingOverlay>
+      )}
+
       {/* Status bar */}
       <StatusBar
         $font={theme.typography.uiFont}
@@ -602,7 +896,7 @@ export function Solitaire({
         $color={theme.colors.text}
         $bgColor="rgba(0, 0, 0, 0.3)"
       >
-        <span>Score: {gameState.score}</span>
+        <span>Score: {formatScore(gameState.score, gameState.config.scoringMode, bankroll)}</span>
         <span>Time: {timer.formatted}</span>
         <span>Moves: {gameState.moves}</span>
       </StatusBar>
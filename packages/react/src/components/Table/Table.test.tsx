@@ -0,0 +1,64 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render } from '@testing-library/react';
+import { createInitialState, type Hint } from '@react-solitaire/core';
+import type { CardProps } from '../Card';
+import { defaultTheme } from '../../themes';
+import { Table } from './Table';
+
+// Show the highlight props each card is rendered with
+vi.mock('../Card', () => ({
+  Card: ({ card, isHinted, isValidDrop }: CardProps) => (
+    <div data-card-id={card.id} data-hinted={isHinted || undefined} data-drop={isValidDrop || undefined} />
+  ),
+}));
+
+/**
+ * IDs of the cards rendered with a highlight prop
+ */
+function highlighted(container: HTMLElement, attribute: 'data-hinted' | 'data-drop'): string[] {
+  return [...container.querySelectorAll(`[${attribute}]`)].map(el => el.getAttribute('data-card-id')!);
+}
+
+describe('Table', () => {
+  // Seed 4 deals the Two of Hearts on column 3 and the Three of Clubs on column 2
+  const state = createInitialState({}, 4);
+
+  it('highlights the hinted card and the top card it goes on', () => {
+    const hint: Hint = {
+      action: {
+        type: 'MOVE_CARDS',
+        from: { pileType: 'tableau', pileIndex: 3, cardIndex: 3 },
+        to: { pileType: 'tableau', pileIndex: 2, cardIndex: 3 },
+        cardCount: 1,
+      },
+      score: 0,
+      reason: 'builds-tableau',
+      source: { pileType: 'tableau', pileIndex: 3, cardIndex: 3 },
+      target: { pileType: 'tableau', pileIndex: 2, cardIndex: 3 },
+    };
+    const { container } = render(<Table gameState={state} theme={defaultTheme} hint={hint} />);
+
+    expect(highlighted(container, 'data-hinted')).toEqual([state.tableau[3].cards[3].id]);
+    expect(highlighted(container, 'data-drop')).toEqual([state.tableau[2].cards[2].id]);
+  });
+
+  it('highlights the top of the stock for a draw', () => {
+    const hint: Hint = {
+      action: { type: 'DRAW_FROM_STOCK' },
+      score: 0,
+      reason: 'draw-stock',
+      source: { pileType: 'stock', pileIndex: 0, cardIndex: state.stock.cards.length - 1 },
+    };
+    const { container } = render(<Table gameState={state} theme={defaultTheme} hint={hint} />);
+
+    expect(highlighted(container, 'data-hinted')).toEqual([state.stock.cards.at(-1)!.id]);
+    expect(highlighted(container, 'data-drop')).toEqual([]);
+  });
+
+  it('highlights nothing without a hint', () => {
+    const { container } = render(<Table gameState={state} theme={defaultTheme} />);
+
+    expect(highlighted(container, 'data-hinted')).toEqual([]);
+    expect(highlighted(container, 'data-drop')).toEqual([]);
+  });
+});
@@ -1,6 +1,6 @@
-import React, { forwardRef } from 'react';
+import React, { forwardRef, useCallback } from 'react';
 import styled from 'styled-components';
-import type { GameState, CardLocation } from '@react-solitaire/core';
+import { getRuleSet, type GameState, type CardLocation, type Hint } from '@react-solitaire/core';
 import type { SolitaireTheme } from '../../themes/types';
 import { Pile } from '../Pile';
 
@@ -38,6 +38,8 @@ export interface TableProps {
   hiddenCardIds?: Set<string>;
   /** Whether more draws from stock are allowed */
   canDrawFromStock?: boolean;
+  /** Hint to highlight (source card and destination pile) */
+  hint?: Hint | null;
 }
 
 interface StyledTableProps {
@@ -80,8 +82,40 @@ const TableauRow = styled.div<{ $gap: number; $scale: number }>`
   flex: 1;
 `;
 
+const TableauGrid = styled.div<{ $width: number; $height: number }>`
+  position: relative;
+  width: ${p => p.$width}px;
+  height: ${p => p.$height}px;
+`;
+
+const GridPosition = styled.div<{ $top: number; $left: number }>`
+  position: absolute;
+  top: ${p => p.$top}px;
+  left: ${p => p.$left}px;
+`;
+
+type PileLocation = Omit<CardLocation, 'cardIndex'>;
+
+const pileLocations = new Map<string, PileLocation>();
+
+/**
+ * Get the same location object for a pile on every render, so the memoized
+ * Pile can tell its props have not changed
+ */
+function getPileLocation(pileType: CardLocation['pileType'], pileIndex: number): PileLocation {
+  const key = `${pileType}-${pileIndex}`;
+  let location = pileLocations.get(key);
+  if (!location) {
+    location = { pileType, pileIndex };
+    pileLocations.set(key, location);
+  }
+  return location;
+}
+
 /**
  * Table component - arranges all piles in the classic Solitaire layout
+ * (stock, waste, free cells and foundations across the top, then one row of
+ * tableau columns, or the overlapping card grid of games like Pyramid)
  */
 export const Table = forwardRef<HTMLDivElement, TableProps>(function Table(
   {
@@ -100,6 +134,7 @@ export const Table = forwardRef<HTMLDivElement, TableProps>(function Table(
     className,
     hiddenCardIds,
     canDrawFromStock = true,
+    hint,
   },
   ref
 ) {
@@ -107,6 +142,44 @@ export const Table = forwardRef<HTMLDivElement, TableProps>(function Table(
     return isValidDropTarget?.(location) ?? false;
   };
 
+  // Clicking anywhere on the stock draws, whichever card or space was hit
+  const handleStockClick = useCallback(() => onStockClick?.(), [onStockClick]);
+
+  const layout = getRuleSet(gameState.config.variant).layout(gameState.config);
+
+  // Grid rows and columns are half a card (plus half a gap across)
+  const gridColumnWidth = (theme.card.width + theme.spacing.pileGap) * scale / 2;
+  const gridRowHeight = theme.card.height * scale / 2;
+
+  // Recycling has no destination card, so highlight the empty stock instead
+  const hintTarget = hint?.target ?? (hint?.action.type === 'RESET_STOCK' ? hint.source : null);
+  const isHintTarget = (pileType: CardLocation['pileType'], pileIndex: number) => {
+    return hintTarget?.pileType === pileType && hintTarget.pileIndex === pileIndex;
+  };
+
+  const renderTableau = (index: number) => {
+    const tableau = gameState.tableau[index];
+    return (
+      <Pile
+        key={tableau.id}
+        pile={tableau}
+        theme={theme}
+        location={getPileLocation('tableau', index)}
+        selectedCard={selectedCard}
+        dropTarget={dropTarget}
+        isValidDropTarget={checkValidDrop({ pileType: 'tableau', pileIndex: index, cardIndex: tableau.cards.length })}
+        scale={scale}
+        onCardClick={onCardClick}
+        onCardDoubleClick={onCardDoubleClick}
+        onCardPointerDown={onCardPointerDown}
+        registerDropTarget={registerDropTarget}
+        unregisterDropTarget={unregisterDropTarget}
+        hintedCard={hint?.source}
+        isHintTarget={isHintTarget('tableau', index)}
+      />
+    );
+  };
+
   return (
     <StyledTable
       ref={ref}
@@ -116,36 +189,64 @@ export const Table = forwardRef<HTMLDivElement, TableProps>(function Table(
       $scale={scale}
       className={className}
     >
-      {/* Top row: Stock, Waste, and Foundations */}
+      {/* Top row: Stock, Waste, free cells and Foundations */}
       <TopRow $gap={theme.spacing.pileGap} $scale={scale}>
         <StockWasteArea $gap={theme.spacing.pileGap} $scale={scale}>
-          {/* Stock pile */}
-          <Pile
-            pile={gameState.stock}
-            theme={theme}
-            location={{ pileType: 'stock', pileIndex: 0 }}
-            selectedCard={selectedCard}
-            dropTarget={dropTarget}
-            scale={scale}
-            onPileClick={onStockClick ? () => onStockClick() : undefined}
-            onCardClick={onStockClick ? () => onStockClick() : undefined}
-            canDrawFromStock={canDrawFromStock}
-          />
+          {/* Stock pile (not used by games that deal every card) */}
+          {layout.stock && (
+            <Pile
+              pile={gameState.stock}
+              theme={theme}
+              location={getPileLocation('stock', 0)}
+              selectedCard={selectedCard}
+              dropTarget={dropTarget}
+              scale={scale}
+              onPileClick={onStockClick ? handleStockClick : undefined}
+              onCardClick={onStockClick ? handleStockClick : undefined}
+              canDrawFromStock={canDrawFromStock}
+              hintedCard={hint?.source}
+              isHintTarget={isHintTarget('stock', 0)}
+            />
+          )}
           
-          {/* Waste pile */}
-          <Pile
-            pile={gameState.waste}
-            theme={theme}
-            location={{ pileType: 'waste', pileIndex: 0 }}
-            selectedCard={selectedCard}
-            dropTarget={dropTarget}
-            scale={scale}
-            onCardClick={onCardClick}
-            onCardDoubleClick={onCardDoubleClick}
-            onCardPointerDown={onCardPointerDown}
-            registerDropTarget={registerDropTarget}
-            unregisterDropTarget={unregisterDropTarget}
-          />
+          {/* Waste pile (not used by games that deal the stock onto the tableau) */}
+          {layout.waste && (
+            <Pile
+              pile={gameState.waste}
+              theme={theme}
+              location={getPileLocation('waste', 0)}
+              selectedCard={selectedCard}
+              dropTarget={dropTarget}
+              scale={scale}
+              onCardClick={onCardClick}
+              onCardDoubleClick={onCardDoubleClick}
+              onCardPointerDown={onCardPointerDown}
+              registerDropTarget={registerDropTarget}
+              unregisterDropTarget={unregisterDropTarget}
+              hintedCard={hint?.source}
+            />
+          )}
+
+          {/* Free cells */}
+          {gameState.cells.map((cell, index) => (
+            <Pile
+              key={cell.id}
+              pile={cell}
+              theme={theme}
+              location={getPileLocation('cell', index)}
+              selectedCard={selectedCard}
+              dropTarget={dropTarget}
+              isValidDropTarget={checkValidDrop({ pileType: 'cell', pileIndex: index, cardIndex: cell.cards.length })}
+              scale={scale}
+              onCardClick={onCardClick}
+              onCardDoubleClick={onCardDoubleClick}
+              onCardPointerDown={onCardPointerDown}
+              registerDropTarget={registerDropTarget}
+              unregisterDropTarget={unregisterDropTarget}
+              hintedCard={hint?.source}
+              isHintTarget={isHintTarget('cell', index)}
+            />
+          ))}
         </StockWasteArea>
 
         {/* Foundations */}
@@ -155,7 +256,7 @@ export const Table = forwardRef<HTMLDivElement, TableProps>(function Table(
               key={foundation.id}
               pile={foundation}
               theme={theme}
-              location={{ pileType: 'foundation', pileIndex: index }}
+              location={getPileLocation('foundation', index)}
               selectedCard={selectedCard}
               dropTarget={dropTarget}
               isValidDropTarget={checkValidDrop({ pileType: 'foundation', pileIndex: index, cardIndex: foundation.cards.length })}
@@ -166,31 +267,35 @@ export const Table = forwardRef<HTMLDivElement, TableProps>(function Table(
               registerDropTarget={registerDropTarget}
               unregisterDropTarget={unregisterDropTarget}
               hiddenCardIds={hiddenCardIds}
+              hintedCard={hint?.source}
+              isHintTarget={isHintTarget('foundation', index)}
             />
           ))}
         </FoundationsArea>
       </TopRow>
 
-      {/* Tableau row */}
-      <TableauRow $gap={theme.spacing.pileGap} $scale={scale}>
-        {gameState.tableau.map((tableau, index) => (
-          <Pile
-            key={tableau.id}
-            pile={tableau}
-            theme={theme}
-            location={{ pileType: 'tableau', pileIndex: index }}
-            selectedCard={selectedCard}
-            dropTarget={dropTarget}
-            isValidDropTarget={checkValidDrop({ pileType: 'tableau', pileIndex: index, cardIndex: tableau.cards.length })}
-            scale={scale}
-            onCardClick={onCardClick}
-            onCardDoubleClick={onCardDoubleClick}
-            onCardPointerDown={onCardPointerDown}
-            registerDropTarget={registerDropTarget}
-            unregisterDropTarget={unregisterDropTarget}
-          />
-        ))}
-      </TableauRow>
+      {layout.grid ? (
+        /* Overlapping tableau grid (cleared positions are left empty) */
+        <TableauGrid
+          $width={Math.max(...layout.grid.map(slot => slot.column)) * gridColumnWidth + theme.card.width * scale}
+          $height={Math.max(...layout.grid.map(slot => slot.row)) * gridRowHeight + theme.card.height * scale}
+        >
+          {layout.grid.map((slot, index) => {
+            const tableau = gameState.tableau[index];
+            if (tableau.cards.length === 0) return null;
+            return (
+              <GridPosition key={tableau.id} $top={slot.row * gridRowHeight} $left={slot.column * gridColumnWidth}>
+                {renderTableau(index)}
+              </GridPosition>
+            );
+          })}
+        </TableauGrid>
+      ) : (
+        /* Tableau row */
+        <TableauRow $gap={theme.spacing.pileGap} $scale={scale}>
+          {gameState.tableau.map((_, index) => renderTableau(index))}
+        </TableauRow>
+      )}
     </StyledTable>
   );
 });
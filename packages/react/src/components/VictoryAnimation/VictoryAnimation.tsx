@@ -136,7 +136,7 @@ export const VictoryAnimation = React.memo(function VictoryAnimation({
     const cards: Array<{ card: CardType; foundationIndex: number; uniqueKey: string }> = [];
     // Interleave from King down to Ace across all foundations
     for (let rank = 12; rank >= 0; rank--) {
-      for (let foundationIndex = 0; foundationIndex < 4; foundationIndex++) {
+      for (let foundationIndex = 0; foundationIndex < gameState.foundations.length; foundationIndex++) {
         const foundation = gameState.foundations[foundationIndex];
         if (foundation.cards[rank]) {
           const card = foundation.cards[rank];
@@ -153,7 +153,8 @@ export const VictoryAnimation = React.memo(function VictoryAnimation({
 
   // Calculate foundation start position
   const getFoundationX = (foundationIndex: number) => {
-    const foundationsWidth = (cardWidth * 4) + (pileGap * 3);
+    const foundationCount = gameState.foundations.length;
+    const foundationsWidth = (cardWidth * foundationCount) + (pileGap * (foundationCount - 1));
     const rightEdge = containerWidth - padding;
     const foundationsStartX = rightEdge - foundationsWidth;
     return foundationsStartX + (foundationIndex * (cardWidth + pileGap));
@@ -3,6 +3,7 @@ export { Pile, type PileProps } from './Pile';
 export { Table, type TableProps } from './Table';
 export { Timer, type TimerProps } from './Timer';
 export { Controls, type ControlsProps } from './Controls';
+export { HistoryTree, type HistoryTreeProps } from './HistoryTree';
 export { Solitaire, type SolitaireProps } from './Solitaire';
 export { VictoryAnimation, type VictoryAnimationProps } from './VictoryAnimation';
 export { CardBackSelector, CARD_BACKS, type CardBackSelectorProps, type CardBackId } from './CardBackSelector';
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { StrictMode, type ReactNode } from 'react';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useGame } from './useGame';
+
+/**
+ * Render like the demo does, so React runs every reducer call twice
+ */
+function strictWrapper({ children }: { children: ReactNode }) {
+  return <StrictMode>{children}</StrictMode>;
+}
+
+describe('useGame', () => {
+  it('records each move once when the reducer runs twice', () => {
+    const { result } = renderHook(() => useGame({ seed: 42 }), { wrapper: strictWrapper });
+
+    act(() => result.current.draw());
+    act(() => result.current.draw());
+    expect(result.current.state.waste.cards).toHaveLength(2);
+    expect(result.current.historyNodes).toHaveLength(3);
+
+    act(() => result.current.undo());
+    expect(result.current.state.waste.cards).toHaveLength(1);
+    expect(result.current.canRedo).toBe(true);
+
+    act(() => result.current.redo());
+    expect(result.current.state.waste.cards).toHaveLength(2);
+    expect(result.current.historyNodes).toHaveLength(3);
+    expect(result.current.replayLog!.actions).toEqual(['D', 'D', 'U', 'D']);
+  });
+
+  it('jumps between history nodes when the reducer runs twice', () => {
+    const { result } = renderHook(() => useGame({ seed: 42 }), { wrapper: strictWrapper });
+
+    act(() => result.current.draw());
+    act(() => result.current.draw());
+    act(() => result.current.goToNode(0));
+    expect(result.current.state.waste.cards).toHaveLength(0);
+    expect(result.current.currentNodeId).toBe(0);
+    expect(result.current.canUndo).toBe(false);
+    expect(result.current.replayLog!.actions).toEqual([]);
+
+    act(() => result.current.goToNode(2));
+    expect(result.current.state.waste.cards).toHaveLength(2);
+    expect(result.current.currentNodeId).toBe(2);
+    expect(result.current.historyNodes).toHaveLength(3);
+    expect(result.current.replayLog!.actions).toEqual(['D', 'D']);
+  });
+
+  it('reports configs that cannot be dealt instead of throwing', () => {
+    const { result } = renderHook(() => useGame({ config: { tableauColumns: 40 }, seed: 42 }));
+    expect(result.current.configError).toBe('40 tableau columns need more than one deck');
+    expect(result.current.state.tableau).toHaveLength(7);
+
+    let started = true;
+    act(() => {
+      started = result.current.newGame({ variant: 'spider', spiderSuits: 3 as 1 });
+    });
+    expect(started).toBe(false);
+    expect(result.current.configError).toContain('Invalid number of Spider suits');
+
+    act(() => {
+      started = result.current.newGame({ tableauColumns: 6 });
+    });
+    expect(started).toBe(true);
+    expect(result.current.configError).toBeNull();
+    expect(result.current.state.tableau).toHaveLength(6);
+  });
+
+  it('reports jumps the undo mode does not allow', () => {
+    const { result } = renderHook(() => useGame({ config: { undoMode: 'limited' }, seed: 42 }));
+
+    act(() => result.current.draw());
+    let jumped = true;
+    act(() => {
+      jumped = result.current.goToNode(0);
+    });
+    expect(jumped).toBe(false);
+    expect(result.current.currentNodeId).toBe(1);
+  });
+
+  it('keeps test wins out of the cumulative Vegas balance', () => {
+    localStorage.removeItem('vegas-test');
+    const { result } = renderHook(() => useGame({
+      config: { scoringMode: 'vegas' },
+      seed: 42,
+      cumulativeVegas: true,
+      bankrollKey: 'vegas-test',
+    }));
+    expect(localStorage.getItem('vegas-test')).toBe('-52');
+
+    act(() => result.current.triggerWin());
+    expect(result.current.state.isWon).toBe(true);
+    expect(result.current.bankroll).toBe(-52);
+    expect(localStorage.getItem('vegas-test')).toBe('-52');
+
+    act(() => {
+      result.current.newGame();
+    });
+    expect(result.current.bankroll).toBe(-52);
+    expect(localStorage.getItem('vegas-test')).toBe('-104');
+  });
+
+  it('searches for a winnable deal without blocking the new game', async () => {
+    const { result } = renderHook(() => useGame({ dealMode: 'winnable' }), { wrapper: strictWrapper });
+    expect(result.current.isDealing).toBe(true);
+    expect(result.current.isWinnableDeal).toBe(false);
+
+    // Play waits for the deal
+    const stock = result.current.state.stock.cards.length;
+    act(() => result.current.draw());
+    expect(result.current.state.stock.cards).toHaveLength(stock);
+
+    await waitFor(() => expect(result.current.isDealing).toBe(false), { timeout: 5000 });
+    expect(result.current.state.moves).toBe(0);
+    if (result.current.isWinnableDeal) {
+      expect(result.current.replayLog!.seed).toBe(result.current.state.seed);
+    }
+  });
+});
@@ -1,35 +1,56 @@
-import { useReducer, useCallback, useMemo, useRef } from 'react';
+import { useReducer, useCallback, useEffect, useMemo, useRef } from 'react';
 import {
+  validateConfig,
   createInitialState,
   createWonState,
-  drawFromStock,
-  resetStock,
-  executeMove,
-  flipTableauCard,
-  autoMoveToFoundation,
-  autoCompleteStep,
-  cloneState,
+  stepGame,
+  redoGame,
+  goToHistoryNode,
+  tickGameClock,
+  createWinnableDeal,
+  createReplayLog,
+  recordAction,
+  exportReplay,
+  serializeGame,
+  deserializeGame,
   GameHistory,
   type GameState,
   type GameConfig,
+  type HistoryNode,
+  type DealMode,
   type CardLocation,
   type MoveResult,
+  type RecordedAction,
+  type ReplayLog,
+  getUndosLeft,
 } from '@react-solitaire/core';
 
 /**
  * Actions for the game reducer
  */
 type GameAction =
-  | { type: 'NEW_GAME'; config?: Partial<GameConfig>; seed?: number }
-  | { type: 'DRAW' }
-  | { type: 'RESET_STOCK' }
-  | { type: 'MOVE'; from: CardLocation; to: CardLocation; cardCount: number }
-  | { type: 'AUTO_MOVE'; from: CardLocation }
-  | { type: 'AUTO_COMPLETE_STEP' }
-  | { type: 'FLIP_CARD'; tableauIndex: number }
-  | { type: 'UNDO' }
+  | { type: 'NEW_GAME'; config?: Partial<GameConfig>; cumulativeVegas: boolean } & NewDeal
+  | { type: 'DEAL_WINNABLE'; seed: number | null }
+  | { type: 'RESET_BANKROLL' }
+  | { type: 'CONFIG_ERROR'; error: string }
+  | RecordedAction
+  | { type: 'REDO' }
+  | { type: 'GO_TO_NODE'; nodeId: number }
+  | { type: 'TICK'; now: number }
   | { type: 'SET_STATE'; state: GameState }
-  | { type: 'TRIGGER_WIN'; config?: Partial<GameConfig> };
+  | { type: 'LOAD_GAME'; state: GameState; history: GameHistory }
+  | { type: 'TRIGGER_WIN'; config?: Partial<GameConfig>; cumulativeVegas: boolean };
+
+/**
+ * Seed picked for a new deal
+ */
+interface NewDeal {
+  seed: number;
+  /** Whether the solver proved the deal winnable */
+  isWinnable: boolean;
+  /** Whether a winnable deal is still being searched for to replace it */
+  isDealing: boolean;
+}
 
 /**
  * Game reducer state wrapper
@@ -38,139 +59,254 @@ interface GameReducerState {
   game: GameState;
   history: GameHistory;
   lastMoveResult: MoveResult | null;
+  /** Replay of the current game (null once the game no longer starts from its deal) */
+  replayLog: ReplayLog | null;
+  /** When the replay log was started */
+  replayStartedAt: number;
+  /** Vegas balance carried over from earlier games (cumulative Vegas) */
+  bankroll: number;
+  /** Whether the solver proved the deal winnable */
+  isWinnable: boolean;
+  /** Whether a winnable deal is being searched for (play waits until it is dealt) */
+  isDealing: boolean;
+  /** Whether the game is a test win (never counted towards the Vegas balance) */
+  isTestWin: boolean;
+  /** Why the last config asked for could not be dealt */
+  configError: string | null;
+}
+
+/**
+ * Time the winnable deal search may take before settling for a random deal,
+ * in milliseconds
+ */
+const WINNABLE_DEAL_TIME_MS = 2000;
+
+/**
+ * Time each step of the winnable deal search may block the page for, in
+ * milliseconds (the search yields to rendering and input between steps)
+ */
+const WINNABLE_DEAL_STEP_MS = 20;
+
+/**
+ * What a game adds to a cumulative Vegas balance
+ */
+function getVegasScore({ game, isTestWin }: GameReducerState): number {
+  return game.config.scoringMode === 'vegas' && !isTestWin ? game.score : 0;
+}
+
+/**
+ * Read a persisted Vegas balance (0 when there is none or no storage)
+ */
+function readBankroll(key: string | undefined): number {
+  if (!key || typeof localStorage === 'undefined') {
+    return 0;
+  }
+  try {
+    const balance = Number(localStorage.getItem(key));
+    return Number.isFinite(balance) ? balance : 0;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Pick a random seed
+ */
+function randomSeed(): number {
+  return Math.floor(Math.random() * 2 ** 31);
+}
+
+/**
+ * Pick the seed for a new deal
+ * Every game gets a seed so it can be replayed. In winnable mode (Klondike
+ * only, unless a seed was given) a random deal goes out while the solver
+ * searches for a winnable one in the background (see useGame).
+ */
+function chooseSeed(
+  config: Partial<GameConfig> | undefined,
+  seed: number | undefined,
+  dealMode: DealMode
+): NewDeal {
+  if (seed !== undefined) {
+    return { seed, isWinnable: false, isDealing: false };
+  }
+  const isKlondike = (config?.variant ?? 'klondike') === 'klondike';
+  return { seed: randomSeed(), isWinnable: false, isDealing: dealMode === 'winnable' && isKlondike };
+}
+
+/**
+ * Create the reducer state for a fresh deal
+ */
+function createGameReducerState(
+  config: Partial<GameConfig> | undefined,
+  { seed, isWinnable, isDealing }: NewDeal,
+  bankroll: number
+): GameReducerState {
+  return {
+    game: createInitialState(config, seed),
+    history: new GameHistory(),
+    lastMoveResult: null,
+    replayLog: createReplayLog(config ?? {}, seed),
+    replayStartedAt: Date.now(),
+    bankroll,
+    isWinnable,
+    isDealing,
+    isTestWin: false,
+    configError: null,
+  };
 }
 
 /**
  * Reducer for game state management
+ * The reducer must stay pure (React may run it twice), so actions that
+ * record history work on a copy of it (which shares every unchanged node).
  */
 function gameReducer(state: GameReducerState, action: GameAction): GameReducerState {
   switch (action.type) {
     case 'NEW_GAME': {
-      const newGame = createInitialState(action.config, action.seed);
-      const history = new GameHistory();
-      return { game: newGame, history, lastMoveResult: null };
+      // Every deal costs its stake, so an unfinished game still counts
+      const bankroll = action.cumulativeVegas ? state.bankroll + getVegasScore(state) : 0;
+      return createGameReducerState(action.config, action, bankroll);
     }
 
-    case 'DRAW': {
-      if (state.game.stock.cards.length === 0) {
+    case 'DEAL_WINNABLE': {
+      // Swap the searched-for deal in for the stand-in; its stake is already paid
+      if (!state.isDealing) {
         return state;
       }
-      const previousState = cloneState(state.game);
-      const newGame = drawFromStock(state.game);
-      
-      state.history.push({
-        move: {
-          from: { pileType: 'stock', pileIndex: 0, cardIndex: state.game.stock.cards.length - 1 },
-          to: { pileType: 'waste', pileIndex: 0, cardIndex: state.game.waste.cards.length },
-          cardCount: state.game.config.drawMode === 'draw-three' ? 3 : 1,
-          flippedCard: false,
-          scoreChange: 0,
-        },
-        previousState,
-      });
-      
-      return { ...state, game: newGame, lastMoveResult: { success: true, state: newGame } };
+      if (action.seed === null) {
+        return { ...state, isDealing: false };
+      }
+      const deal = { seed: action.seed, isWinnable: true, isDealing: false };
+      return { ...createGameReducerState(state.game.config, deal, state.bankroll), configError: state.configError };
+    }
+
+    case 'RESET_BANKROLL': {
+      return { ...state, bankroll: 0 };
     }
 
-    case 'RESET_STOCK': {
-      if (state.game.waste.cards.length === 0) {
+    case 'CONFIG_ERROR': {
+      return { ...state, configError: action.error };
+    }
+
+    case 'DRAW':
+    case 'RESET_STOCK':
+    case 'MOVE':
+    case 'AUTO_MOVE':
+    case 'FLIP_CARD':
+    case 'AUTO_COMPLETE_STEP':
+    case 'AUTO_PLAY':
+    case 'UNDO': {
+      if (state.isDealing) {
         return state;
       }
-      const previousState = cloneState(state.game);
-      const newGame = resetStock(state.game);
-      
-      state.history.push({
-        move: {
-          from: { pileType: 'waste', pileIndex: 0, cardIndex: 0 },
-          to: { pileType: 'stock', pileIndex: 0, cardIndex: 0 },
-          cardCount: state.game.waste.cards.length,
-          flippedCard: false,
-          scoreChange: 0,
-        },
-        previousState,
-      });
-      
-      return { ...state, game: newGame, lastMoveResult: { success: true, state: newGame } };
-    }
+      const now = Date.now();
+      const history = state.history.clone();
+      const result = stepGame(state.game, history, action, now);
 
-    case 'MOVE': {
-      const previousState = cloneState(state.game);
-      const result = executeMove(state.game, action.from, action.to, action.cardCount);
-      
-      if (result.success && result.state && result.move) {
-        state.history.push({
-          move: result.move,
-          previousState,
-        });
-        return { ...state, game: result.state, lastMoveResult: result };
+      if (!result) {
+        return state;
       }
-      
-      return { ...state, lastMoveResult: result };
-    }
+      if (!result.success || !result.state) {
+        return { ...state, lastMoveResult: result };
+      }
+
+      // Only actions that changed the game are recorded, so logs stay verifiable
+      const replayLog = state.replayLog &&
+        recordAction(state.replayLog, action, now - state.replayStartedAt);
 
-    case 'AUTO_MOVE': {
-      const previousState = cloneState(state.game);
-      const result = autoMoveToFoundation(state.game, action.from);
-      
-      if (result.success && result.state && result.move) {
-        state.history.push({
-          move: result.move,
-          previousState,
-        });
-        return { ...state, game: result.state, lastMoveResult: result };
+      if (action.type === 'UNDO') {
+        return { ...state, game: result.state, history, lastMoveResult: null, replayLog };
       }
-      
-      return { ...state, lastMoveResult: result };
+      return { ...state, game: result.state, history, lastMoveResult: result, replayLog };
     }
 
-    case 'AUTO_COMPLETE_STEP': {
-      const newGame = autoCompleteStep(state.game);
-      
-      if (newGame) {
-        // Don't record individual auto-complete moves in history
-        return { ...state, game: newGame, lastMoveResult: { success: true, state: newGame } };
+    case 'REDO': {
+      const now = Date.now();
+      const history = state.history.clone();
+      const redone = redoGame(state.game, history, now);
+      if (!redone) {
+        return state;
       }
-      
-      return state;
+
+      // Log the actions played again, so the replay stays verifiable
+      const replayLog = state.replayLog && redone.actions.reduce(
+        (log, redoAction) => recordAction(log, redoAction, now - state.replayStartedAt),
+        state.replayLog
+      );
+      return { ...state, game: redone.state, history, lastMoveResult: null, replayLog };
     }
 
-    case 'FLIP_CARD': {
-      const previousState = cloneState(state.game);
-      const result = flipTableauCard(state.game, action.tableauIndex);
-      
-      if (result.success && result.state) {
-        state.history.push({
-          move: {
-            from: { pileType: 'tableau', pileIndex: action.tableauIndex, cardIndex: state.game.tableau[action.tableauIndex].cards.length - 1 },
-            to: { pileType: 'tableau', pileIndex: action.tableauIndex, cardIndex: state.game.tableau[action.tableauIndex].cards.length - 1 },
-            cardCount: 0,
-            flippedCard: true,
-            scoreChange: 5, // Standard score for revealing a card
-          },
-          previousState,
-        });
-        return { ...state, game: result.state, lastMoveResult: result };
+    case 'GO_TO_NODE': {
+      // Jumping around the tree would get round undo limits and penalties
+      if (state.game.config.undoMode !== 'unlimited') {
+        return state;
+      }
+      const history = state.history.clone();
+      const game = goToHistoryNode(state.game, history, action.nodeId);
+      if (!game) {
+        return state;
       }
-      
-      return { ...state, lastMoveResult: result };
+
+      // The log continues from the line of play jumped to
+      return {
+        ...state,
+        game,
+        history,
+        lastMoveResult: null,
+        replayLog: exportReplay(game, history),
+        replayStartedAt: history.getPlayedActions()[0]?.time ?? state.replayStartedAt,
+      };
     }
 
-    case 'UNDO': {
-      const previousState = state.history.undo();
-      if (previousState) {
-        return { ...state, game: previousState, lastMoveResult: null };
-      }
-      return state;
+    case 'TICK': {
+      const game = tickGameClock(state.game, action.now);
+      return game === state.game ? state : { ...state, game };
     }
 
     case 'SET_STATE': {
-      return { ...state, game: action.state, lastMoveResult: null };
+      return {
+        ...state,
+        game: action.state,
+        lastMoveResult: null,
+        replayLog: null,
+        isWinnable: false,
+        isDealing: false,
+      };
+    }
+
+    case 'LOAD_GAME': {
+      // A saved history that leads back to the deal keeps the game verifiable
+      const replayLog = exportReplay(action.state, action.history);
+      return {
+        ...state,
+        game: action.state,
+        history: action.history,
+        lastMoveResult: null,
+        replayLog,
+        replayStartedAt: action.history.getPlayedActions()[0]?.time ?? Date.now(),
+        isWinnable: false,
+        isDealing: false,
+        isTestWin: false,
+      };
     }
 
     case 'TRIGGER_WIN': {
+      // The game it replaces still costs its stake, but the test win pays nothing
       const wonState = createWonState(action.config);
       const history = new GameHistory();
-      return { game: wonState, history, lastMoveResult: null };
+      const bankroll = action.cumulativeVegas ? state.bankroll + getVegasScore(state) : 0;
+      return {
+        ...state,
+        game: wonState,
+        history,
+        lastMoveResult: null,
+        replayLog: null,
+        bankroll,
+        isWinnable: false,
+        isDealing: false,
+        isTestWin: true,
+      };
     }
 
     default:
@@ -186,6 +322,16 @@ export interface UseGameOptions {
   config?: Partial<GameConfig>;
   /** Seed for reproducible games */
   seed?: number;
+  /**
+   * Whether to deal any shuffle or only deals the solver has proven winnable
+   * (searched for in the background while isDealing, falling back to a random
+   * deal when no proof is found quickly; see isWinnableDeal)
+   */
+  dealMode?: DealMode;
+  /** Carry the Vegas balance over from game to game (Windows "Keep score") */
+  cumulativeVegas?: boolean;
+  /** localStorage key to keep the cumulative Vegas balance between visits */
+  bankrollKey?: string;
   /** Callback when game is won */
   onWin?: (state: GameState) => void;
   /** Callback on any move */
@@ -198,8 +344,17 @@ export interface UseGameOptions {
 export interface UseGameReturn {
   /** Current game state */
   state: GameState;
-  /** Start a new game */
-  newGame: (config?: Partial<GameConfig>, seed?: number) => void;
+  /** Whether the solver proved the current deal winnable */
+  isWinnableDeal: boolean;
+  /**
+   * Whether a winnable deal is still being searched for (dealMode 'winnable');
+   * moves are ignored until it is dealt
+   */
+  isDealing: boolean;
+  /** Start a new game; returns false, keeping the current game, if the config can't be dealt */
+  newGame: (config?: Partial<GameConfig>, seed?: number) => boolean;
+  /** Why the last config asked for could not be dealt (null when it could) */
+  configError: string | null;
   /** Draw from stock */
   draw: () => void;
   /** Reset waste to stock */
@@ -212,41 +367,128 @@ export interface UseGameReturn {
   flipCard: (tableauIndex: number) => void;
   /** Perform one auto-complete step */
   autoCompleteStep: () => boolean;
+  /** Promote one card to a foundation as config.autoPlay allows */
+  autoPlayStep: () => void;
   /** Undo last move */
   undo: () => void;
   /** Whether undo is available */
   canUndo: boolean;
+  /** Play the last undone move again */
+  redo: () => void;
+  /** Whether redo is available */
+  canRedo: boolean;
+  /** Every position of the branching undo history (for HistoryTree) */
+  historyNodes: HistoryNode[];
+  /** Node of the current position */
+  currentNodeId: number;
+  /**
+   * Restore the position at any node of the undo history; returns false for
+   * an unknown node, or unless config.undoMode is 'unlimited' (jumps would get
+   * round undo limits and penalties)
+   */
+  goToNode: (nodeId: number) => boolean;
   /** Last move result */
   lastMoveResult: MoveResult | null;
   /** Elapsed time in seconds */
   elapsedTime: number;
-  /** Trigger win state for testing */
+  /** Trigger win state for testing (its score never reaches the Vegas balance) */
   triggerWin: () => void;
+  /** Serialize the current game and undo history (see serializeGame) */
+  saveGame: () => string;
+  /** Restore a game from saveGame output; returns false if the save is invalid */
+  loadGame: (json: string) => boolean;
+  /** Every action dispatched since the deal, for replay() (null after loading or setting a state) */
+  replayLog: ReplayLog | null;
+  /** Vegas balance carried over from earlier games (pass to formatScore with the score) */
+  bankroll: number;
+  /** Start the cumulative Vegas balance again from the current game */
+  resetBankroll: () => void;
 }
 
 /**
  * Hook for managing solitaire game state
  */
 export function useGame(options: UseGameOptions = {}): UseGameReturn {
-  const { config, seed } = options;
+  const { config, seed, dealMode = 'random', cumulativeVegas = false, bankrollKey } = options;
 
   // Use refs to avoid recreating callbacks when config changes
   const configRef = useRef(config);
   const seedRef = useRef(seed);
+  const dealModeRef = useRef(dealMode);
+  const cumulativeVegasRef = useRef(cumulativeVegas);
   configRef.current = config;
   seedRef.current = seed;
+  dealModeRef.current = dealMode;
+  cumulativeVegasRef.current = cumulativeVegas;
 
-  const [reducerState, dispatch] = useReducer(gameReducer, null, () => ({
-    game: createInitialState(config, seed),
-    history: new GameHistory(),
-    lastMoveResult: null,
-  }));
+  // A config that can't be dealt falls back to the defaults (see configError)
+  const [reducerState, dispatch] = useReducer(gameReducer, null, () => {
+    const configError = validateConfig(config);
+    const gameConfig = configError ? undefined : config;
+    const initial = createGameReducerState(
+      gameConfig,
+      chooseSeed(gameConfig, seed, dealMode),
+      cumulativeVegas ? readBankroll(bankrollKey) : 0
+    );
+    return { ...initial, configError };
+  });
+
+  const { game, history, lastMoveResult, replayLog, bankroll, isWinnable, isDealing, configError } = reducerState;
 
-  const { game, history, lastMoveResult } = reducerState;
+  // Persist the running balance, including the stake of the game in play
+  const balance = bankroll + getVegasScore(reducerState);
+  useEffect(() => {
+    if (!cumulativeVegas || !bankrollKey || typeof localStorage === 'undefined') return;
+    try {
+      localStorage.setItem(bankrollKey, String(balance));
+    } catch {
+      // Storage can be full or disabled; the balance still carries over this session
+    }
+  }, [cumulativeVegas, bankrollKey, balance]);
+
+  // Charge timed games for the time played while the game runs
+  const clockRunning = game.config.timedGame && game.startTime !== null && !game.isWon;
+  useEffect(() => {
+    if (!clockRunning) return;
+    const interval = setInterval(() => dispatch({ type: 'TICK', now: Date.now() }), 1000);
+    return () => clearInterval(interval);
+  }, [clockRunning]);
+
+  // Search for a winnable deal a step at a time, so a new game never blocks
+  // the page for long; a search that runs out of time keeps the random deal
+  const dealConfig = game.config;
+  useEffect(() => {
+    if (!isDealing) return;
+    const deadline = Date.now() + WINNABLE_DEAL_TIME_MS;
+    let timeout: ReturnType<typeof setTimeout>;
+    const step = () => {
+      const winnable = createWinnableDeal(dealConfig, { maxAttempts: 1, maxTimeMs: WINNABLE_DEAL_STEP_MS });
+      if (winnable || Date.now() >= deadline) {
+        dispatch({ type: 'DEAL_WINNABLE', seed: winnable?.seed ?? null });
+        return;
+      }
+      timeout = setTimeout(step, 0);
+    };
+    timeout = setTimeout(step, 0);
+    return () => clearTimeout(timeout);
+  }, [isDealing, dealConfig]);
 
   // Stable callbacks that don't change
-  const newGame = useCallback((newConfig?: Partial<GameConfig>, newSeed?: number) => {
-    dispatch({ type: 'NEW_GAME', config: newConfig ?? configRef.current, seed: newSeed ?? seedRef.current });
+  const newGame = useCallback((newConfig?: Partial<GameConfig>, newSeed?: number): boolean => {
+    const gameConfig = newConfig ?? configRef.current;
+    const error = validateConfig(gameConfig);
+    if (error) {
+      dispatch({ type: 'CONFIG_ERROR', error });
+      return false;
+    }
+    const deal = chooseSeed(gameConfig, newSeed ?? seedRef.current, dealModeRef.current);
+    dispatch({
+      type: 'NEW_GAME',
+      config: gameConfig,
+      ...deal,
+      cumulativeVegas: cumulativeVegasRef.current,
+    });
+    return true;
   }, []);
 
   const draw = useCallback(() => {
@@ -278,15 +520,54 @@ export function useGame(options: UseGameOptions = {}): UseGameReturn {
     return true; // Caller should check gameState.isWon
   }, []);
 
+  const autoPlayStep = useCallback((): void => {
+    dispatch({ type: 'AUTO_PLAY' });
+  }, []);
+
   const undo = useCallback(() => {
     dispatch({ type: 'UNDO' });
   }, []);
 
+  const redo = useCallback(() => {
+    dispatch({ type: 'REDO' });
+  }, []);
+
+  const undoMode = game.config.undoMode;
+  const nodeCount = history.size() + 1;
+  const goToNode = useCallback((nodeId: number): boolean => {
+    if (undoMode !== 'unlimited' || !Number.isInteger(nodeId) || nodeId < 0 || nodeId >= nodeCount) {
+      return false;
+    }
+    dispatch({ type: 'GO_TO_NODE', nodeId });
+    return true;
+  }, [undoMode, nodeCount]);
+
+  const resetBankroll = useCallback(() => {
+    dispatch({ type: 'RESET_BANKROLL' });
+  }, []);
+
   const triggerWin = useCallback(() => {
-    dispatch({ type: 'TRIGGER_WIN', config: configRef.current });
+    dispatch({ type: 'TRIGGER_WIN', config: configRef.current, cumulativeVegas: cumulativeVegasRef.current });
   }, []);
 
-  const canUndo = history.canUndo();
+  const saveGame = useCallback((): string => {
+    return serializeGame(game, history);
+  }, [game, history]);
+
+  const loadGame = useCallback((json: string): boolean => {
+    const result = deserializeGame(json);
+    if (!result.success || !result.state || !result.history) {
+      return false;
+    }
+    dispatch({ type: 'LOAD_GAME', state: result.state, history: result.history });
+    return true;
+  }, []);
+
+  const canUndo = history.canUndo() && getUndosLeft(game) !== 0;
+  const canRedo = history.canRedo();
+
+  const historyNodes = useMemo(() => history.getNodes(), [history]);
+  const currentNodeId = history.getCurrentNodeId();
 
   const elapsedTime = useMemo(() => {
     if (!game.startTime) return 0;
@@ -296,17 +577,31 @@ export function useGame(options: UseGameOptions = {}): UseGameReturn {
 
   return {
     state: game,
+    isWinnableDeal: isWinnable,
+    isDealing,
     newGame,
+    configError,
     draw,
     resetWaste,
     move,
     autoMove,
     flipCard,
     autoCompleteStep: autoCompleteStepFn,
+    autoPlayStep,
     undo,
     canUndo,
+    redo,
+    canRedo,
+    historyNodes,
+    currentNodeId,
+    goToNode,
     lastMoveResult,
     elapsedTime,
     triggerWin,
+    saveGame,
+    loadGame,
+    replayLog,
+    bankroll,
+    resetBankroll,
   };
 }
@@ -10,6 +10,8 @@ export {
   type TimerProps,
   Controls,
   type ControlsProps,
+  HistoryTree,
+  type HistoryTreeProps,
   Solitaire,
   type SolitaireProps,
   VictoryAnimation,
@@ -60,4 +62,10 @@ export type {
   Rank,
   DrawMode,
   ScoringMode,
+  DealMode,
+  Variant,
+  SpiderSuits,
+  Hint,
+  HintReason,
+  HistoryNode,
 } from '@react-solitaire/core';
@@ -1,3 +1,5 @@
+import type { AutoPlayMode, ScoringProfile, UndoMode, Variant } from '@react-solitaire/core';
+
 /**
  * Theme definition for the Solitaire game
  */
@@ -147,19 +149,51 @@ export interface SoundConfig {
  * Game options passed to the Solitaire component
  */
 export interface SolitaireOptions {
+  /** Which patience game to play */
+  variant?: Variant;
+  /** Number of suits in Spider (1, 2 or 4) */
+  spiderSuits?: 1 | 2 | 4;
+  /** Number of decks in Klondike (2 gives eight foundations) */
+  decks?: number;
+  /** Number of tableau columns in Klondike */
+  tableauColumns?: number;
   /** Draw mode */
   drawMode?: 'draw-one' | 'draw-three';
+  /** Cards turned from the stock at once (overrides drawMode) */
+  drawCount?: number;
   /** Scoring mode */
   scoringMode?: 'standard' | 'vegas' | 'none';
+  /** Custom point table in place of the scoring mode's own */
+  scoringProfile?: ScoringProfile;
+  /** Windows 3.1 timed game: -2 points every 10 seconds, then a time bonus on winning */
+  timedGame?: boolean;
+  /** Carry the Vegas balance over from game to game */
+  cumulativeVegas?: boolean;
+  /** localStorage key to keep the cumulative Vegas balance between visits */
+  bankrollKey?: string;
   /** Allow unlimited passes through stock */
   unlimitedPasses?: boolean;
+  /** Times the waste can be turned back into the stock (overrides unlimitedPasses) */
+  passLimit?: number;
+  /** Deal any shuffle, or only deals proven winnable by the solver */
+  dealMode?: 'random' | 'winnable';
   /** Enable auto-complete when available */
   autoCompleteEnabled?: boolean;
+  /** Play cards to the foundations after every move: none, only safe ones, or all */
+  autoPlay?: AutoPlayMode;
   /** Enable double-click to foundation */
   doubleClickEnabled?: boolean;
-  /** Enable undo functionality */
+  /** Enable undo functionality (false is the same as undoMode 'disabled') */
   undoEnabled?: boolean;
-  /** Auto-flip exposed tableau cards (false = click to flip, like original Windows Solitaire) */
+  /** Undo policy: unlimited, limited to undoLimit per game, disabled, or charged the scoring profile's undo points */
+  undoMode?: UndoMode;
+  /** Undos allowed per game in the limited undo mode */
+  undoLimit?: number;
+  /** Show the Hint button */
+  hintsEnabled?: boolean;
+  /** Show the History button, which lists every line of play to jump back to (unlimited undo only) */
+  historyEnabled?: boolean;
+  /** Auto-flip exposed tableau cards (false = click to flip, like original Windows Solitaire); TriPeaks always turns uncovered cards up */
   autoFlipTableau?: boolean;
   /** Sound configuration */
   sound?: Partial<SoundConfig>;